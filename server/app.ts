@@ -0,0 +1,270 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { type AIProvider, type ChatRequest, type ContentRequest, type GenerationOptions, type JsonRequest } from '../src/services/aiProvider';
+import { PROXY_ROUTES, PROXY_USAGE_PATH, type ProxyErrorBody, type ProxyRoute, type ProxyStreamLine } from '../src/services/proxyRoutes';
+import { type AIErrorKind, HTTP_STATUS_BY_KIND, RateLimitedError, classifyError } from '../src/services/aiErrors';
+import {
+  type AIRequestDraft, type AITaskKind, type ChatTask, type ContentTask, type JsonTask,
+  CHAT_TASK_KINDS, CONTENT_TASK_KINDS, JSON_TASK_KINDS, buildChatRequest, buildContentRequest, buildJsonRequest,
+} from '../src/services/aiTasks';
+import { formatIssues } from '../src/services/validation';
+import { createMeteredProvider } from '../src/services/usage';
+import { type RateLimiter } from './rateLimiter';
+import { parseTask } from './taskValidation';
+import { type UsageLedger } from './usageLedger';
+
+/** Large enough for a base64-encoded diagram photo. */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/** The task kinds each route operation can run. */
+const TASK_KINDS_BY_OPERATION: Record<ProxyRoute['operation'], AITaskKind[]> = {
+  chat: CHAT_TASK_KINDS,
+  chatStream: CHAT_TASK_KINDS,
+  generateJson: JSON_TASK_KINDS,
+  generateContent: CONTENT_TASK_KINDS,
+};
+
+export interface ProxyServerOptions {
+  /** The model backend every route forwards to. */
+  provider: AIProvider;
+  rateLimiter: RateLimiter;
+  /** Meters every call and refuses new ones once a daily budget is used up. */
+  usage: UsageLedger;
+  /** The model names clients may ask for; anything else is refused. */
+  models: readonly string[];
+  /**
+   * Set when the proxy sits behind a reverse proxy that appends the client address to
+   * X-Forwarded-For. Without it the header is ignored, since any client can send it.
+   */
+  trustProxy?: boolean;
+  /** Receives one structured log line per request. */
+  log?: (line: string) => void;
+}
+
+/** An error with the HTTP status the client should see. */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isGenerationOptions = (value: unknown): value is GenerationOptions => {
+  if (!isRecord(value)) return false;
+  const { temperature, maxOutputTokens } = value;
+  return (temperature === undefined || (typeof temperature === 'number' && temperature >= 0 && temperature <= 2))
+    && (maxOutputTokens === undefined || (typeof maxOutputTokens === 'number' && Number.isInteger(maxOutputTokens) && maxOutputTokens > 0));
+};
+
+/** Builds the provider request for a task, choosing the builder by the route's operation. */
+const buildRequest = (route: ProxyRoute, task: ChatTask | JsonTask | ContentTask): AIRequestDraft<ChatRequest | JsonRequest | ContentRequest> => {
+  switch (route.operation) {
+    case 'chat':
+    case 'chatStream':
+      return buildChatRequest(task as ChatTask);
+    case 'generateJson':
+      return buildJsonRequest(task as JsonTask);
+    case 'generateContent':
+      return buildContentRequest(task as ContentTask);
+  }
+};
+
+/**
+ * Parses and checks a request body against its route. The body names a task and its
+ * parameters; prompts and response schemas are built here, never taken from the client.
+ */
+const parseRequest = (route: ProxyRoute, raw: string, models: readonly string[]): ChatRequest | JsonRequest | ContentRequest => {
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+  if (!isRecord(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object.');
+  }
+  if (typeof body.model !== 'string' || !models.includes(body.model)) {
+    throw new HttpError(400, `Model '${String(body.model)}' is not allowed.`);
+  }
+  if (body.generation !== undefined && !isGenerationOptions(body.generation)) {
+    throw new HttpError(400, 'generation must hold a temperature from 0 to 2 and a positive integer maxOutputTokens.');
+  }
+  const parsed = parseTask(body.task);
+  if ('issues' in parsed) {
+    throw new HttpError(400, `Invalid task: ${formatIssues(parsed.issues.slice(0, 5))}`);
+  }
+  const { task } = parsed;
+  if (!TASK_KINDS_BY_OPERATION[route.operation].includes(task.kind)) {
+    throw new HttpError(400, `Task '${task.kind}' is not served by ${route.path}.`);
+  }
+  const { request } = buildRequest(route, task);
+  if (!route.features.includes(request.feature)) {
+    throw new HttpError(400, `Feature '${request.feature}' is not served by ${route.path}.`);
+  }
+  return { ...request, model: body.model, generation: body.generation } as ChatRequest | JsonRequest | ContentRequest;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, kind: AIErrorKind, message: string, retryAfterSeconds?: number) => {
+  if (retryAfterSeconds !== undefined) res.setHeader('Retry-After', String(retryAfterSeconds));
+  const body: ProxyErrorBody = { error: { status, message, kind, retryAfterSeconds } };
+  sendJson(res, status, body);
+};
+
+/**
+ * Answers with the typed error behind a failure, so the browser can rebuild the same
+ * AIServiceError. Our own request checks are always invalid requests.
+ */
+const sendFailure = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    sendError(res, error.status, 'invalid-request', error.message);
+    return;
+  }
+  const serviceError = classifyError(error);
+  const status = HTTP_STATUS_BY_KIND[serviceError.kind];
+  if (status >= 500) console.error(error);
+  const retryAfterSeconds = serviceError instanceof RateLimitedError && serviceError.retryAfterMs !== undefined
+    ? Math.ceil(serviceError.retryAfterMs / 1000)
+    : undefined;
+  sendError(res, status, serviceError.kind, serviceError.detail ?? serviceError.message, retryAfterSeconds);
+};
+
+/**
+ * The address rate limits are keyed on. Behind a trusted reverse proxy this is the last
+ * X-Forwarded-For entry, the one that proxy added; earlier entries come from the client.
+ */
+const clientIp = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && forwarded) {
+    const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded).split(',').pop()?.trim();
+    if (last) return last;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * Forwards a request to the provider and writes the result. Streaming replies are sent
+ * as chunked plain text. Upstream work stops when the client disconnects.
+ */
+const forward = async (route: ProxyRoute, body: ChatRequest | JsonRequest | ContentRequest, provider: AIProvider, res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const request = { ...body, signal: controller.signal };
+  switch (route.operation) {
+    case 'chat':
+      sendJson(res, 200, await provider.chat(request as ChatRequest));
+      return;
+    case 'chatStream': {
+      const stream = provider.chatStream(request as ChatRequest);
+      // Wait for the first chunk so an upstream failure can still return an error status.
+      let next = await stream.next();
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+      const writeLine = (line: ProxyStreamLine) => res.write(`${JSON.stringify(line)}\n`);
+      while (!next.done && !controller.signal.aborted) {
+        writeLine({ text: next.value });
+        next = await stream.next();
+      }
+      // Finish the stream so a call cut short is still metered.
+      if (!next.done) await stream.return(undefined);
+      if (next.done && next.value) writeLine({ usage: next.value });
+      res.end();
+      return;
+    }
+    case 'generateJson':
+      sendJson(res, 200, await provider.generateJson(request as JsonRequest));
+      return;
+    case 'generateContent':
+      sendJson(res, 200, await provider.generateContent(request as ContentRequest));
+      return;
+  }
+};
+
+/**
+ * Creates the proxy HTTP server. It serves the typed routes in PROXY_ROUTES, rate
+ * limits each client IP, meters every call against the daily budgets, reports the
+ * totals at PROXY_USAGE_PATH and logs every request as a JSON line.
+ */
+export const createProxyServer = ({ provider, rateLimiter, usage, models, trustProxy = false, log = console.log }: ProxyServerOptions): Server => {
+  const meteredProvider = createMeteredProvider(provider, usage);
+
+  return createServer(async (req, res) => {
+    const started = Date.now();
+    const ip = clientIp(req, trustProxy);
+    const path = (req.url ?? '/').split('?')[0];
+    let request: ChatRequest | ContentRequest | undefined;
+
+    res.on('close', () => {
+      log(JSON.stringify({
+        time: new Date(started).toISOString(),
+        method: req.method,
+        path,
+        status: res.statusCode,
+        durationMs: Date.now() - started,
+        ip,
+        feature: request?.feature,
+        model: request?.model,
+      }));
+    });
+
+    try {
+      if (path === PROXY_USAGE_PATH) {
+        if (req.method !== 'GET') {
+          res.setHeader('Allow', 'GET');
+          sendError(res, 405, 'invalid-request', 'Only GET is supported.');
+          return;
+        }
+        sendJson(res, 200, usage.report());
+        return;
+      }
+      const route = PROXY_ROUTES.find(r => r.path === path);
+      if (!route) {
+        sendError(res, 404, 'invalid-request', `No route for ${path}.`);
+        return;
+      }
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        sendError(res, 405, 'invalid-request', 'Only POST is supported.');
+        return;
+      }
+      const limit = rateLimiter.take(ip);
+      if (!limit.allowed) {
+        sendError(res, 429, 'rate-limited', 'Too many requests. Please wait a moment and try again.', limit.retryAfterSeconds);
+        return;
+      }
+      request = parseRequest(route, await readBody(req), models);
+      await forward(route, request, meteredProvider, res);
+    } catch (error) {
+      // The client went away and the upstream call was aborted; there is no one to answer.
+      if (res.destroyed) return;
+      if (res.headersSent) {
+        // A stream already started; all we can do is cut it off.
+        console.error(error);
+        res.destroy();
+      } else {
+        sendFailure(res, error);
+      }
+    }
+  });
+};
@@ -0,0 +1,87 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { type AIProvider } from '../src/services/aiProvider';
+import { createGeminiProvider } from '../src/services/geminiProvider';
+import { createMockProvider } from '../src/services/mockProvider';
+import { createEmptyFixture, createRecordingProvider, createReplayProvider, parseFixture } from '../src/services/fixtures';
+import { createProxyServer } from './app';
+import { createRateLimiter } from './rateLimiter';
+import { createUsageLedger, parseFeatureBudgets } from './usageLedger';
+import { type UsageRow } from '../src/services/usage';
+
+// Starts the backend proxy. The API key is read here and never sent to the browser.
+//
+//   PORT / PROXY_PORT       the port to listen on (default 8787)
+//   AI_BACKEND              'gemini' (default) or 'mock' for a local stand-in that needs no network
+//   API_KEY / GEMINI_API_KEY  the Gemini API key
+//   RATE_LIMIT_PER_MINUTE   requests allowed per client IP per minute (default 30)
+//   AI_MODELS               comma-separated model names clients may use (default: the 2.5 flash, pro, flash-lite and flash-image models)
+//   TRUST_PROXY             'true' when behind a reverse proxy that sets X-Forwarded-For, so each client is limited on its own
+//   AI_FIXTURE_MODE         'record' to save every call to the fixture file, 'replay' to answer from it offline
+//   AI_FIXTURE_FILE         the fixture file (default fixtures/recording.json)
+//   AI_FIXTURE_FALLBACK     'true' to answer an unrecorded request in replay with the next entry for its feature
+//   AI_USAGE_FILE           where the metered usage is kept across restarts (default usage/usage.json)
+//   AI_DAILY_TOKEN_BUDGET   tokens all clients together may use per day; unset means no limit
+//   AI_FEATURE_TOKEN_BUDGETS  per-feature daily tokens, e.g. 'problems=200000,tutor=500000'
+
+const port = Number(process.env.PORT ?? process.env.PROXY_PORT ?? 8787);
+const backend = process.env.AI_BACKEND === 'mock' ? 'mock' : 'gemini';
+const ratePerMinute = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 30);
+const models = (process.env.AI_MODELS ?? 'gemini-2.5-flash,gemini-2.5-pro,gemini-2.5-flash-lite,gemini-2.5-flash-image')
+  .split(',').map(model => model.trim()).filter(Boolean);
+const trustProxy = process.env.TRUST_PROXY === 'true';
+const fixtureMode = process.env.AI_FIXTURE_MODE;
+const fixtureFile = process.env.AI_FIXTURE_FILE ?? 'fixtures/recording.json';
+const fixtureFallback = process.env.AI_FIXTURE_FALLBACK === 'true';
+const usageFile = process.env.AI_USAGE_FILE ?? 'usage/usage.json';
+const dailyTokenBudget = process.env.AI_DAILY_TOKEN_BUDGET ? Number(process.env.AI_DAILY_TOKEN_BUDGET) : undefined;
+const featureTokenBudgets = parseFeatureBudgets(process.env.AI_FEATURE_TOKEN_BUDGETS ?? '');
+
+if (dailyTokenBudget !== undefined && !(Number.isInteger(dailyTokenBudget) && dailyTokenBudget >= 0)) {
+  console.error('AI_DAILY_TOKEN_BUDGET must be a whole number of tokens.');
+  process.exit(1);
+}
+
+const apiKey = process.env.API_KEY ?? process.env.GEMINI_API_KEY;
+if (backend === 'gemini' && fixtureMode !== 'replay' && !apiKey) {
+  console.error('API_KEY (or GEMINI_API_KEY) must be set, or start with AI_BACKEND=mock.');
+  process.exit(1);
+}
+
+const createProvider = (): AIProvider => {
+  if (fixtureMode === 'replay') {
+    return createReplayProvider(parseFixture(readFileSync(fixtureFile, 'utf8')), { fallbackToNext: fixtureFallback });
+  }
+  const provider = backend === 'mock' ? createMockProvider() : createGeminiProvider(apiKey);
+  if (fixtureMode !== 'record') return provider;
+
+  // The whole file is rewritten after every call, so it is complete whenever the server stops.
+  const fixture = createEmptyFixture(`Recorded by the proxy on ${new Date().toISOString()}`);
+  mkdirSync(dirname(fixtureFile), { recursive: true });
+  return createRecordingProvider(provider, entry => {
+    fixture.entries.push(entry);
+    writeFileSync(fixtureFile, JSON.stringify(fixture, null, 2));
+  });
+};
+
+// Like a recording, the usage file is rewritten after every call.
+const createUsage = () => {
+  const saved = existsSync(usageFile) ? JSON.parse(readFileSync(usageFile, 'utf8')) as UsageRow[] : [];
+  mkdirSync(dirname(usageFile), { recursive: true });
+  return createUsageLedger({ dailyTokens: dailyTokenBudget, featureDailyTokens: featureTokenBudgets }, saved, rows => {
+    writeFileSync(usageFile, JSON.stringify(rows, null, 2));
+  });
+};
+
+const server = createProxyServer({
+  provider: createProvider(),
+  rateLimiter: createRateLimiter(ratePerMinute, 60_000),
+  usage: createUsage(),
+  models,
+  trustProxy,
+});
+
+server.listen(port, () => {
+  console.log(`AI proxy listening on http://localhost:${port} (backend: ${fixtureMode === 'replay' ? `replay of ${fixtureFile}` : backend}, ${ratePerMinute} requests/min per IP)`);
+  if (fixtureMode === 'record') console.log(`Recording every call to ${fixtureFile}`);
+});
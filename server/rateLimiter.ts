@@ -0,0 +1,34 @@
+/**
+ * A fixed-window request counter per client IP.
+ */
+export interface RateLimiter {
+  /**
+   * Records a request from an IP.
+   * @returns Whether the request is allowed, and if not, how many seconds until the window resets.
+   */
+  take(ip: string): { allowed: true } | { allowed: false; retryAfterSeconds: number };
+}
+
+export const createRateLimiter = (limit: number, windowMs: number, now: () => number = Date.now): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(ip) {
+      const time = now();
+      let window = windows.get(ip);
+      if (!window || time - window.start >= windowMs) {
+        window = { start: time, count: 0 };
+        windows.set(ip, window);
+        // Drop expired windows so the map does not grow with every IP ever seen.
+        for (const [key, value] of windows) {
+          if (time - value.start >= windowMs) windows.delete(key);
+        }
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - time) / 1000) };
+      }
+      window.count++;
+      return { allowed: true };
+    },
+  };
+};
@@ -0,0 +1,118 @@
+import { type AITask, type AITaskKind, CHAT_TASK_KINDS, CONTENT_TASK_KINDS, JSON_TASK_KINDS, misconceptionTaxonomyIds } from '../src/services/aiTasks';
+import { ANSWER_KEYS, type ValidationIssue, type Validator, anyString, arrayOf, nonEmptyString, object, oneOf, optional } from '../src/services/validation';
+import { type CurriculumTopic, findCurriculumTopic, getCurriculumTopic } from '../src/data/curriculum';
+import { MAX_IMAGES_PER_MESSAGE } from '../src/services/imageParts';
+import { TUTOR_MODES } from '../src/data/tutorModes';
+
+// Limits on what a task may carry. They are generous for real use and only stop the proxy
+// from being fed arbitrarily large prompts; the body size limit still applies on top.
+const MAX_TEXT_LENGTH = 20_000;
+const MAX_LABEL_LENGTH = 200;
+const MAX_TURNS = 100;
+const MAX_PROBLEMS = 10;
+const MAX_REPAIR_ISSUES = 50;
+
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/heic', 'image/heif'];
+
+const text = (maxLength = MAX_TEXT_LENGTH): Validator => (value, path) => {
+  const issues = anyString()(value, path);
+  if (issues.length > 0) return issues;
+  return (value as string).length > maxLength ? [{ path, message: `must be at most ${maxLength} characters` }] : [];
+};
+
+const listOf = (item: Validator, maxLength: number): Validator => (value, path) => {
+  const issues = arrayOf(item)(value, path);
+  if (issues.length > 0) return issues;
+  return (value as unknown[]).length > maxLength ? [{ path, message: `must have at most ${maxLength} items` }] : [];
+};
+
+const integerInRange = (min: number, max: number): Validator => (value, path) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? []
+    : [{ path, message: `must be a whole number from ${min} to ${max}` }];
+
+const base64: Validator = (value, path) =>
+  typeof value === 'string' && /^[A-Za-z0-9+/]+={0,2}$/.test(value) ? [] : [{ path, message: 'must be base64 data' }];
+
+const image = object({ mimeType: oneOf(IMAGE_MIME_TYPES), data: base64 });
+
+const hintLevel = integerInRange(1, 4);
+
+const turn = object({
+  role: oneOf(['user', 'model']),
+  text: text(),
+  imageCount: optional(integerInRange(1, MAX_IMAGES_PER_MESSAGE)),
+  hintLevel: optional(hintLevel),
+});
+
+const turns = listOf(turn, MAX_TURNS);
+
+const options = object({ a: text(), b: text(), c: text(), d: text() });
+
+const practice = object({
+  topic: text(MAX_LABEL_LENGTH),
+  problem: text(),
+  options,
+  correctAnswer: oneOf(ANSWER_KEYS),
+  chosenAnswer: oneOf(ANSWER_KEYS),
+  solution: text(),
+});
+
+// Only the ids and the label are read; the rest of the topic is looked up again on the server.
+const topic = object({
+  label: (value, path) => [...nonEmptyString()(value, path), ...text(MAX_LABEL_LENGTH)(value, path)],
+  courseId: optional(anyString()),
+  unitId: optional(anyString()),
+  subtopicId: optional(anyString()),
+});
+
+const repair = optional(object({
+  previousOutput: text(),
+  issues: listOf(object({ path: text(MAX_LABEL_LENGTH), message: text(1000) }), MAX_REPAIR_ISSUES),
+}));
+
+const TASK_VALIDATORS: Record<AITaskKind, Validator> = {
+  'connection-test': object({}),
+  'tutor-turn': object({
+    mode: optional(oneOf(TUTOR_MODES.map(mode => mode.id))),
+    memory: optional(text()),
+    practice: optional(practice),
+    history: turns,
+    message: text(),
+    images: optional(listOf(image, MAX_IMAGES_PER_MESSAGE)),
+    hintLevel: optional(hintLevel),
+  }),
+  'practice-opening': object({ mode: optional(oneOf(TUTOR_MODES.map(mode => mode.id))), practice }),
+  'session-recap': object({
+    earlierNotes: optional(text()),
+    turns,
+    misconceptionIds: listOf(oneOf(misconceptionTaxonomyIds()), MAX_TURNS),
+    repair,
+  }),
+  'misconception-tag': object({ history: turns, studentMessage: text(), tutorReply: text(), repair }),
+  'topic-summary': object({ topic, repair }),
+  'practice-problems': object({ topic, count: integerInRange(1, MAX_PROBLEMS), repair }),
+  'problem-solve': object({ problem: text(), options, repair }),
+  'conversation-summary': object({ previousSummary: optional(text()), turns }),
+  'diagram-feedback': object({ question: text(), image }),
+  'simulation': object({ request: text() }),
+};
+
+const TASK_KINDS = [...CHAT_TASK_KINDS, ...JSON_TASK_KINDS, ...CONTENT_TASK_KINDS];
+
+// A client-built topic could carry any course name or learning codes into the prompt.
+const resolveTopic = ({ courseId, unitId, subtopicId, label }: CurriculumTopic): CurriculumTopic =>
+  (courseId && unitId && getCurriculumTopic(courseId, unitId, subtopicId)) || findCurriculumTopic(label);
+
+/**
+ * Checks a task sent to the proxy against the shape and limits of its kind.
+ * @returns The task, with any curriculum topic looked up again on the server, or the issues found.
+ */
+export const parseTask = (value: unknown): { task: AITask } | { issues: ValidationIssue[] } => {
+  const kindIssues = object({ kind: oneOf(TASK_KINDS) })(value, 'task');
+  if (kindIssues.length > 0) return { issues: kindIssues };
+  const task = value as AITask;
+  const issues = TASK_VALIDATORS[task.kind](task, 'task');
+  if (issues.length > 0) return { issues };
+  return { task: 'topic' in task ? { ...task, topic: resolveTopic(task.topic) } : task };
+};
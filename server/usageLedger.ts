@@ -0,0 +1,62 @@
+import { type AIFeature } from '../src/services/aiProvider';
+import { type ProxyUsageReport } from '../src/services/proxyRoutes';
+import { type BudgetSettings, type UsageMeter, type UsageRow, USAGE_RETENTION_DAYS, addCallToRows, assertWithinBudget, localDay, usageRowKey } from '../src/services/usage';
+import { AI_FEATURE_LABELS } from '../src/data/aiFeatures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The usage the proxy has metered for all its clients, kept as totals per day, feature
+ * and model, and the daily budgets checked against them.
+ */
+export interface UsageLedger extends UsageMeter {
+  report(): ProxyUsageReport;
+}
+
+/**
+ * Creates the proxy's usage ledger. Days older than USAGE_RETENTION_DAYS are dropped.
+ * @param budget The daily budgets, shared by every client of the proxy.
+ * @param saved Totals kept by an earlier run.
+ * @param onChange Receives all totals after every recorded call, e.g. to save them.
+ */
+export const createUsageLedger = (budget: BudgetSettings, saved: UsageRow[] = [], onChange?: (rows: UsageRow[]) => void): UsageLedger => {
+  const rows = new Map<string, UsageRow>();
+  for (const row of saved) rows.set(usageRowKey(row), row);
+
+  const prune = () => {
+    const oldestDay = localDay(Date.now() - USAGE_RETENTION_DAYS * DAY_MS);
+    for (const [key, row] of rows) {
+      if (row.day < oldestDay) rows.delete(key);
+    }
+  };
+  prune();
+
+  return {
+    async checkBudget(feature) {
+      const today = localDay();
+      assertWithinBudget([...rows.values()].filter(row => row.day === today), feature, budget);
+    },
+    record(call) {
+      addCallToRows(rows, call);
+      prune();
+      onChange?.([...rows.values()]);
+    },
+    report: () => ({ today: localDay(), rows: [...rows.values()], budget }),
+  };
+};
+
+/**
+ * Parses per-feature budgets written as `feature=tokens` pairs, e.g. "problems=200000,tutor=500000".
+ * @throws Error naming the first pair that is not a known feature with a whole number of tokens.
+ */
+export const parseFeatureBudgets = (value: string): Partial<Record<AIFeature, number>> => {
+  const budgets: Partial<Record<AIFeature, number>> = {};
+  for (const pair of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [feature, tokens] = pair.split('=').map(part => part.trim());
+    if (!(feature in AI_FEATURE_LABELS) || !/^\d+$/.test(tokens ?? '')) {
+      throw new Error(`Invalid feature budget '${pair}'; expected feature=tokens, e.g. problems=200000.`);
+    }
+    budgets[feature as AIFeature] = Number(tokens);
+  }
+  return budgets;
+};
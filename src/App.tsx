@@ -1,27 +1,80 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Sidebar from './components/Sidebar';
 import SocraticTutor from './components/SocraticTutor';
 import ProblemGenerator from './components/ProblemGenerator';
 import VirtualLab from './components/VirtualLab';
 import DiagramAnalyzer from './components/DiagramAnalyzer';
-import { type View } from './types';
+import VideoCatalogueAdmin from './components/VideoCatalogueAdmin';
+import UsageDashboard from './components/UsageDashboard';
+import ReviewQueue from './components/ReviewQueue';
+import Settings from './components/Settings';
+import { needsApiKey, setRuntimeApiKey } from './services/aiProvider';
+import { getSettings } from './services/settingsStore';
+import { type PracticeDiscussion, type View } from './types';
+import { type CurriculumTopic } from './data/curriculum';
 
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<View>('tutor');
+  // A wrong practice answer waiting to be opened in the tutor; cleared once the tutor has started on it.
+  const [pendingDiscussion, setPendingDiscussion] = useState<PracticeDiscussion | null>(null);
+
+  // A topic a tutor recap suggested, waiting for the problem generator to open on it.
+  const [pendingPracticeTopic, setPendingPracticeTopic] = useState<CurriculumTopic | null>(null);
+
+  const handleDiscussProblem = (discussion: PracticeDiscussion) => {
+    setPendingDiscussion(discussion);
+    setActiveView('tutor');
+  };
+
+  const handlePracticeTopic = (topic: CurriculumTopic) => {
+    setPendingPracticeTopic(topic);
+    setActiveView('practice');
+  };
+
+  const tutor = (
+    <SocraticTutor
+      discussion={pendingDiscussion}
+      onDiscussionStarted={() => setPendingDiscussion(null)}
+      onPracticeTopic={handlePracticeTopic}
+    />
+  );
+
+  // Apply a saved runtime key, and open the settings first when nothing can work without one.
+  // The settings load after the first render, so a view the user already opened is kept.
+  useEffect(() => {
+    getSettings().then(({ ai }) => {
+      setRuntimeApiKey(ai.apiKey);
+      if (needsApiKey(ai.apiKey)) setActiveView(view => (view === 'tutor' ? 'settings' : view));
+    });
+  }, []);
 
   const renderContent = () => {
     switch (activeView) {
       case 'tutor':
-        return <SocraticTutor />;
+        return tutor;
       case 'practice':
-        return <ProblemGenerator />;
+        return (
+          <ProblemGenerator
+            onDiscuss={handleDiscussProblem}
+            practiceTopic={pendingPracticeTopic}
+            onPracticeStarted={() => setPendingPracticeTopic(null)}
+          />
+        );
+      case 'review':
+        return <ReviewQueue />;
       case 'lab':
         return <VirtualLab />;
       case 'diagram':
         return <DiagramAnalyzer />;
+      case 'videos':
+        return <VideoCatalogueAdmin />;
+      case 'usage':
+        return <UsageDashboard />;
+      case 'settings':
+        return <Settings />;
       default:
-        return <SocraticTutor />;
+        return tutor;
     }
   };
 
@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { type AIFeature, needsApiKey, setRuntimeApiKey } from '../services/aiProvider';
+import { testConnection } from '../services/geminiService';
+import { type AISettings, type ModelConfig, DEFAULT_SETTINGS, getSettings, updateSettings } from '../services/settingsStore';
+import { AI_FEATURE_LABELS } from '../data/aiFeatures';
+import ErrorNotice from './ErrorNotice';
+
+// Suggestions only; any Gemini model name can be typed in.
+const MODEL_SUGGESTIONS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite', 'gemini-2.5-flash-image'];
+
+const inputClassName = 'p-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/** Reads an optional number input; an empty field means "use the model's default". */
+const parseOptional = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+const isValidConfig = ({ model, temperature, maxOutputTokens }: ModelConfig): boolean =>
+  model !== ''
+  && (temperature === undefined || (temperature >= 0 && temperature <= 2))
+  && (maxOutputTokens === undefined || (Number.isInteger(maxOutputTokens) && maxOutputTokens > 0));
+
+type TestState =
+  | { status: 'idle' }
+  | { status: 'testing' }
+  | { status: 'ok'; latencyMs: number }
+  | { status: 'failed'; error: Error };
+
+/**
+ * Edits the API key and the model, temperature and output length of each feature,
+ * and checks the connection with the values in the form before they are saved.
+ */
+const AISettingsPanel: React.FC = () => {
+  const [saved, setSaved] = useState<AISettings>(DEFAULT_SETTINGS.ai);
+  const [form, setForm] = useState<AISettings>(DEFAULT_SETTINGS.ai);
+  const [showKey, setShowKey] = useState(false);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const testControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    getSettings().then(settings => {
+      setSaved(settings.ai);
+      setForm(settings.ai);
+    });
+    return () => testControllerRef.current?.abort();
+  }, []);
+
+  const updateForm = (next: AISettings) => {
+    setForm(next);
+    setSaveMessage(null);
+  };
+
+  const updateModel = (feature: AIFeature, patch: Partial<ModelConfig>) => {
+    updateForm({ ...form, models: { ...form.models, [feature]: { ...form.models[feature], ...patch } } });
+  };
+
+  const handleSave = async () => {
+    const apiKey = form.apiKey.trim();
+    try {
+      const next = await updateSettings('ai', { ...form, apiKey });
+      setSaved(next.ai);
+      setForm(next.ai);
+      setRuntimeApiKey(apiKey);
+      setSaveMessage('已儲存。');
+    } catch (e) {
+      console.error(e);
+      setSaveMessage('儲存失敗，請再試一次。');
+    }
+  };
+
+  const handleTest = async () => {
+    testControllerRef.current?.abort();
+    const controller = new AbortController();
+    testControllerRef.current = controller;
+    setTest({ status: 'testing' });
+    try {
+      const latencyMs = await testConnection({ ...form, apiKey: form.apiKey.trim() }, controller.signal);
+      setTest({ status: 'ok', latencyMs });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setTest({ status: 'failed', error: e instanceof Error ? e : new Error(String(e)) });
+    } finally {
+      if (testControllerRef.current === controller) testControllerRef.current = null;
+    }
+  };
+
+  const handleReset = () => {
+    updateForm({ ...form, models: DEFAULT_SETTINGS.ai.models });
+  };
+
+  const isDirty = JSON.stringify(form) !== JSON.stringify(saved);
+  const isValid = Object.values(form.models).every(isValidConfig);
+
+  return (
+    <section className="p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+      <h3 className="text-lg font-semibold">AI 連線與模型</h3>
+      <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+        設定 API 金鑰，以及每個功能使用的模型、溫度與回覆長度上限。
+      </p>
+
+      {needsApiKey(saved.apiKey) && (
+        <p role="alert" className="mb-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 text-sm">
+          尚未設定 API 金鑰，AI 功能暫時無法使用。請在下方輸入金鑰並儲存。
+        </p>
+      )}
+
+      <div className="mb-6">
+        <label htmlFor="api-key" className="block mb-1 text-sm font-medium">Gemini API 金鑰</label>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            id="api-key"
+            type={showKey ? 'text' : 'password'}
+            value={form.apiKey}
+            onChange={(e) => updateForm({ ...form, apiKey: e.target.value })}
+            placeholder="留空則使用伺服器上的金鑰"
+            autoComplete="off"
+            className={`flex-1 min-w-[16rem] ${inputClassName}`}
+          />
+          <button onClick={() => setShowKey(!showKey)} className="px-3 py-1.5 rounded-lg bg-slate-200 dark:bg-slate-700 text-sm">
+            {showKey ? '隱藏' : '顯示'}
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+          金鑰只儲存在這台裝置上。填入後，瀏覽器會直接連線到 Gemini，不再經過伺服器。
+        </p>
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 dark:text-slate-400">
+              <th className="py-2 pr-4 font-medium">功能</th>
+              <th className="py-2 pr-4 font-medium">模型</th>
+              <th className="py-2 pr-4 font-medium">溫度（0–2）</th>
+              <th className="py-2 font-medium">回覆長度上限（tokens）</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(AI_FEATURE_LABELS) as AIFeature[]).map(feature => {
+              const config = form.models[feature];
+              return (
+                <tr key={feature} className="border-t border-pink-100 dark:border-purple-800">
+                  <td className="py-2 pr-4">{AI_FEATURE_LABELS[feature]}</td>
+                  <td className="py-2 pr-4">
+                    <input
+                      list="model-suggestions"
+                      value={config.model}
+                      onChange={(e) => updateModel(feature, { model: e.target.value.trim() })}
+                      aria-label={`${AI_FEATURE_LABELS[feature]}的模型`}
+                      className={`w-48 ${inputClassName}`}
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="number"
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={config.temperature ?? ''}
+                      onChange={(e) => updateModel(feature, { temperature: parseOptional(e.target.value) })}
+                      placeholder="預設"
+                      aria-label={`${AI_FEATURE_LABELS[feature]}的溫度`}
+                      className={`w-24 ${inputClassName}`}
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={config.maxOutputTokens ?? ''}
+                      onChange={(e) => updateModel(feature, { maxOutputTokens: parseOptional(e.target.value) })}
+                      placeholder="預設"
+                      aria-label={`${AI_FEATURE_LABELS[feature]}的回覆長度上限`}
+                      className={`w-28 ${inputClassName}`}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <datalist id="model-suggestions">
+          {MODEL_SUGGESTIONS.map(model => <option key={model} value={model} />)}
+        </datalist>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || !isValid}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors text-sm"
+        >
+          儲存設定
+        </button>
+        <button
+          onClick={handleTest}
+          disabled={test.status === 'testing' || !isValidConfig(form.models.tutor)}
+          className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors text-sm"
+        >
+          {test.status === 'testing' ? '測試中…' : '測試連線'}
+        </button>
+        <button onClick={handleReset} className="px-4 py-2 rounded-lg text-sm text-slate-500 dark:text-slate-400 hover:underline">
+          還原預設模型
+        </button>
+        {!isValid && <span className="text-sm text-red-500">請填入模型名稱，溫度需介於 0 到 2，長度上限需為正整數。</span>}
+        {saveMessage && <span className="text-sm text-slate-500 dark:text-slate-400">{saveMessage}</span>}
+        {test.status === 'ok' && <span className="text-sm text-green-600 dark:text-green-400">連線成功（{test.latencyMs} 毫秒）</span>}
+      </div>
+
+      {test.status === 'failed' && <ErrorNotice error={test.error} onRetry={handleTest} className="mt-4" />}
+    </section>
+  );
+};
+
+export default AISettingsPanel;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { RefreshIcon } from './icons';
+
+interface CachedNoticeProps {
+  /** When the cached response was generated. */
+  cachedAt: number;
+  onRegenerate: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Tells the student a result came from the local response cache and offers a fresh one.
+ */
+const CachedNotice: React.FC<CachedNoticeProps> = ({ cachedAt, onRegenerate, disabled, className = '' }) => (
+  <div className={`flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400 ${className}`}>
+    <span>已從快取載入（{new Date(cachedAt).toLocaleString('zh-TW')} 生成）</span>
+    <button
+      onClick={onRegenerate}
+      disabled={disabled}
+      className="flex items-center gap-1 px-2 py-1 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+    >
+      <RefreshIcon />
+      重新生成
+    </button>
+  </div>
+);
+
+export default CachedNotice;
@@ -1,7 +1,11 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { analyzeDiagram } from '../services/geminiService';
 import { exportToPdf } from '../services/exportService';
-import { UploadIcon, DiagramIcon, ExportIcon } from './icons';
+import { renderRichText } from '../services/richText';
+import RichText from './RichText';
+import { type GeneratedText } from '../types';
+import ErrorNotice from './ErrorNotice';
+import { UploadIcon, DiagramIcon, ExportIcon, StopIcon } from './icons';
 
 const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -16,14 +20,26 @@ const DiagramAnalyzer: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [prompt, setPrompt] = useState<string>('請詳細描述這張圖的內容，以及您遇到的困難或想確認的觀念，例如：『這是在水平桌面上推動物體的自由體圖，我不確定摩擦力的方向是否正確。』');
-  const [feedback, setFeedback] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<GeneratedText | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  // An Error from the analysis, or a plain message for local failures such as the export.
+  const [error, setError] = useState<Error | string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  };
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
+      // Feedback on the previous image is no longer wanted.
+      handleCancel();
       setImageFile(file);
       setPreviewUrl(URL.createObjectURL(file));
       setFeedback(null);
@@ -33,17 +49,23 @@ const DiagramAnalyzer: React.FC = () => {
 
   const handleAnalyze = async () => {
     if (!imageFile) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
     setFeedback(null);
     try {
-      const analysisResult = await analyzeDiagram(imageFile, prompt);
+      const analysisResult = await analyzeDiagram(imageFile, prompt, controller.signal);
       setFeedback(analysisResult);
     } catch (e) {
-      setError((e as Error).message || '無法分析圖片，請稍後再試。');
+      if (controller.signal.aborted) return;
+      setError(e as Error);
       console.error(e);
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
@@ -66,7 +88,8 @@ const DiagramAnalyzer: React.FC = () => {
                 </div>
                 <div style="page-break-inside: avoid; margin-bottom: 20px;">
                     <h3>AI 教授的回饋：</h3>
-                    <p>${feedback.replace(/\n/g, '<br>')}</p>
+                    ${renderRichText(feedback.text)}
+                    <p style="font-size: 8pt; color: #94a3b8;">提示版本：${feedback.promptVersion}</p>
                 </div>
             </div>
         `;
@@ -108,14 +131,24 @@ const DiagramAnalyzer: React.FC = () => {
             placeholder="描述你的圖表以及遇到的問題..."
             className="w-full p-3 h-32 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
           />
-          <button
-            onClick={handleAnalyze}
-            disabled={!imageFile || isLoading}
-            className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors"
-          >
-            <DiagramIcon />
-            {isLoading ? '分析中...' : '開始分析'}
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleCancel}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-red-500 text-white font-semibold hover:bg-red-600 transition-colors"
+            >
+              <StopIcon />
+              取消分析
+            </button>
+          ) : (
+            <button
+              onClick={handleAnalyze}
+              disabled={!imageFile}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors"
+            >
+              <DiagramIcon />
+              開始分析
+            </button>
+          )}
         </div>
       </div>
       
@@ -138,8 +171,8 @@ const DiagramAnalyzer: React.FC = () => {
           </div>
           <div className="bg-slate-100 dark:bg-slate-900/50 p-6 rounded-lg min-h-[100px]">
             {isLoading && <p className="text-slate-500 dark:text-slate-400">正在仔細檢查你的圖，請稍候...</p>}
-            {error && <p className="text-red-500">{error}</p>}
-            {feedback && <p className="text-slate-700 dark:text-slate-200 whitespace-pre-wrap">{feedback}</p>}
+            {error && <ErrorNotice error={error} onRetry={typeof error === 'string' ? undefined : handleAnalyze} />}
+            {feedback && <RichText text={feedback.text} className="text-slate-700 dark:text-slate-200" />}
           </div>
         </div>
       )}
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { AIServiceError, RateLimitedError, type AIErrorKind } from '../services/aiErrors';
+
+// What the student can do about each kind of failure, and whether trying again can help.
+const KIND_GUIDANCE: Record<AIErrorKind, { hint: string; canRetry: boolean }> = {
+  'rate-limited': { hint: '已自動重試，但伺服器仍然忙碌。', canRetry: true },
+  'unavailable': { hint: '伺服器可能暫時忙碌或網路不穩，稍候再試一次。', canRetry: true },
+  'invalid-request': { hint: '請檢查輸入內容或上傳的檔案後再送出。', canRetry: false },
+  'auth': { hint: '請在「設定」頁面輸入有效的 API 金鑰，或通知老師檢查伺服器設定。', canRetry: false },
+  'safety-blocked': { hint: '請調整用詞，避免可能被誤判的內容後再送出。', canRetry: false },
+  'parse-failure': { hint: 'AI 的回覆格式有誤，重新產生通常就能解決。', canRetry: true },
+  'budget-exceeded': { hint: '額度會在午夜重新計算；目前的用量與預算設定位置請見「用量統計」。', canRetry: false },
+  'fixture-miss': { hint: '請照錄製時的步驟操作，或在「設定 → 錄製與重播」允許以同一功能的下一筆回應代替。', canRetry: false },
+  'unexpected': { hint: '可以再試一次；如果一直發生，請重新整理頁面或通知老師。', canRetry: true },
+};
+
+// Used when a rate-limited response carries no retry-after hint.
+const DEFAULT_RATE_LIMIT_WAIT_MS = 20000;
+
+/** Counts down the seconds until a rate limit is expected to lift; 0 when there is nothing to wait for. */
+const useRateLimitCountdown = (error: Error | string): number => {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!(error instanceof RateLimitedError)) {
+      setSecondsLeft(0);
+      return;
+    }
+    const until = Date.now() + (error.retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT_MS);
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((until - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [error]);
+
+  return secondsLeft;
+};
+
+interface ErrorNoticeProps {
+  error: Error | string;
+  /** Offered as a retry button when another attempt can help. */
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * Shows a failed request with guidance that depends on the kind of AIServiceError:
+ * a countdown for rate limits, a retry button for transient failures, and no retry
+ * where only a change of input or configuration helps.
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, className = '' }) => {
+  const secondsLeft = useRateLimitCountdown(error);
+  const message = typeof error === 'string' ? error : error.message;
+  const guidance = error instanceof AIServiceError ? KIND_GUIDANCE[error.kind] : null;
+  const canRetry = onRetry && (guidance?.canRetry ?? true);
+
+  return (
+    <div role="alert" className={`p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300 text-sm ${className}`}>
+      <p className="font-medium">{message}</p>
+      {guidance && <p className="mt-1 text-red-500/80 dark:text-red-300/80">{guidance.hint}</p>}
+      {secondsLeft > 0 && <p className="mt-1">請在 {secondsLeft} 秒後再試。</p>}
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          disabled={secondsLeft > 0}
+          className="mt-3 px-4 py-1.5 rounded-lg bg-red-600 text-white font-semibold disabled:bg-slate-400 hover:bg-red-700 transition-colors"
+        >
+          {secondsLeft > 0 ? `重試（${secondsLeft}）` : '重試'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
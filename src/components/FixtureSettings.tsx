@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { type Fixture, parseFixture } from '../services/fixtures';
+import { clearRecording, clearReplayFixture, getFixture, getReplayFallbackCount, loadReplayFixture, restartReplay } from '../services/fixtureStore';
+import { type FixtureMode, getSettings, updateSettings } from '../services/settingsStore';
+import { DownloadIcon, TrashIcon, UploadIcon } from './icons';
+
+const MODE_OPTIONS: { mode: FixtureMode; label: string; description: string }[] = [
+  { mode: 'off', label: '關閉', description: '正常連線到 AI。' },
+  { mode: 'record', label: '錄製', description: '每次 AI 呼叫的請求與回應都會存成錄製檔，可下載後附在問題回報中。' },
+  { mode: 'replay', label: '重播', description: '所有 AI 呼叫都改由載入的錄製檔回答，完全不連網。' },
+];
+
+const buttonClassName = 'flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors text-sm';
+
+/**
+ * Switches between live calls, recording them to a fixture, and replaying a fixture,
+ * so a student's bad output can be reproduced offline from a bug report.
+ */
+const FixtureSettings: React.FC = () => {
+  const [mode, setMode] = useState<FixtureMode>('off');
+  const [fallbackToNext, setFallbackToNext] = useState(false);
+  const [fallbackCount, setFallbackCount] = useState(0);
+  const [recording, setRecording] = useState<Fixture | undefined>();
+  const [replay, setReplay] = useState<Fixture | undefined>();
+  const [description, setDescription] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const { fixtures } = await getSettings();
+      setMode(fixtures.mode);
+      setFallbackToNext(fixtures.fallbackToNext);
+      setFallbackCount(getReplayFallbackCount());
+      const recorded = await getFixture('recording');
+      setRecording(recorded);
+      setDescription(recorded?.description ?? '');
+      setReplay(await getFixture('replay'));
+    } catch (e) {
+      console.error(e);
+      setError('無法讀取錄製檔。');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleModeChange = async (next: FixtureMode) => {
+    try {
+      if (next === 'record' && mode !== 'record') {
+        await clearRecording(description || undefined);
+      }
+      await updateSettings('fixtures', { mode: next });
+      restartReplay();
+      setMessage(null);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('無法切換錄製模式，請再試一次。');
+    }
+    await refresh();
+  };
+
+  const handleFallbackChange = async (enabled: boolean) => {
+    try {
+      await updateSettings('fixtures', { fallbackToNext: enabled });
+      // The replay provider reads the option when it is created.
+      restartReplay();
+      setFallbackToNext(enabled);
+      setFallbackCount(0);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('無法儲存重播設定，請再試一次。');
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      // Re-read so entries recorded since the screen opened are included.
+      const fixture = await getFixture('recording');
+      if (!fixture) return;
+      const blob = new Blob([JSON.stringify({ ...fixture, description: description || undefined }, null, 2)], { type: 'application/json' });
+      const objectUrl = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = objectUrl;
+      a.download = `ai-fixture-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(objectUrl);
+    } catch (e) {
+      console.error(e);
+      setError('無法下載錄製檔，請再試一次。');
+    }
+  };
+
+  const handleClearRecording = async () => {
+    if (!window.confirm('確定要清除目前的錄製內容嗎？')) return;
+    try {
+      await clearRecording(description || undefined);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('無法清除錄製內容，請再試一次。');
+    }
+    await refresh();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const fixture = parseFixture(await file.text());
+      await loadReplayFixture(fixture);
+      setReplay(fixture);
+      setFallbackCount(0);
+      setMessage(`已載入 ${fixture.entries.length} 筆錄製的呼叫。`);
+    } catch (err) {
+      console.error(err);
+      setError(`無法載入錄製檔：${(err as Error).message}`);
+    }
+  };
+
+  const handleClearReplay = async () => {
+    try {
+      await clearReplayFixture();
+      setReplay(undefined);
+      setFallbackCount(0);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('無法移除錄製檔，請再試一次。');
+    }
+  };
+
+  return (
+    <section className="p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+      <h3 className="text-lg font-semibold">錄製與重播</h3>
+      <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+        用來重現 AI 的錯誤回覆。錄製或重播時不使用回應快取，重播的呼叫也不計入用量。
+      </p>
+
+      {message && <p className="mb-4 text-sm text-green-600 dark:text-green-400">{message}</p>}
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <div className="flex flex-col gap-2 mb-4 text-sm">
+        {MODE_OPTIONS.map(option => (
+          <label key={option.mode} className="flex items-start gap-2 cursor-pointer">
+            <input type="radio" name="fixture-mode" checked={mode === option.mode} onChange={() => handleModeChange(option.mode)} className="mt-1" />
+            <span>
+              <span className="font-medium">{option.label}</span>
+              <span className="ml-2 text-slate-500 dark:text-slate-400">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {mode === 'record' && (
+        <div className="p-3 mb-4 rounded-lg bg-slate-50 dark:bg-slate-800 text-sm">
+          <p className="mb-2">錄製中：已記錄 {recording?.entries.length ?? 0} 筆呼叫。</p>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="簡述要重現的問題（會寫進錄製檔）"
+            className="w-full mb-3 p-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handleDownload} disabled={!recording} className={buttonClassName}>
+              <DownloadIcon />
+              下載錄製檔
+            </button>
+            <button onClick={refresh} className={buttonClassName}>重新整理</button>
+            <button onClick={handleClearRecording} className={buttonClassName}>
+              <TrashIcon />
+              清除錄製
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'replay' && (
+        <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-800 text-sm">
+          {replay ? (
+            <p className="mb-2">
+              已載入 {replay.entries.length} 筆呼叫{replay.description ? `：${replay.description}` : ''}
+            </p>
+          ) : (
+            <p className="mb-2 text-amber-600 dark:text-amber-400">尚未載入錄製檔，AI 功能在重播模式下將無法使用。</p>
+          )}
+          <label className="flex items-start gap-2 mb-2 cursor-pointer">
+            <input type="checkbox" checked={fallbackToNext} onChange={(e) => handleFallbackChange(e.target.checked)} className="mt-1" />
+            <span>
+              找不到完全相同的請求時，以同一功能的下一筆錄製回應代替
+              <span className="block text-slate-500 dark:text-slate-400">代替的回應原本是回答別的請求，內容可能對不上。關閉時，找不到的請求會直接顯示錯誤。</span>
+            </span>
+          </label>
+          {fallbackCount > 0 && (
+            <p className="mb-2 text-amber-600 dark:text-amber-400">
+              本次重播已有 {fallbackCount} 個請求以不相符的錄製回應代替。
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <label className={`${buttonClassName} cursor-pointer`}>
+              <UploadIcon />
+              載入錄製檔
+              <input type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+            </label>
+            <button onClick={refresh} className={buttonClassName}>重新整理</button>
+            <button onClick={() => { restartReplay(); setFallbackCount(0); setMessage('已從頭開始重播。'); }} disabled={!replay} className={buttonClassName}>
+              從頭重播
+            </button>
+            <button onClick={handleClearReplay} disabled={!replay} className={buttonClassName}>
+              <TrashIcon />
+              移除
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default FixtureSettings;
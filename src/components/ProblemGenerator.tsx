@@ -1,8 +1,17 @@
-import React, { useState } from 'react';
-import { generatePracticeProblem, generateTopicSummary } from '../services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { generatePracticeProblem, generateTopicSummary, verifyPracticeProblems, type VerificationMismatchPolicy } from '../services/geminiService';
 import { exportToPdf } from '../services/exportService';
-import { type PracticeProblem, type TopicSummary } from '../types';
-import { SparklesIcon, ExportIcon, YoutubeIcon, LightbulbIcon } from './icons';
+import { escapeHtml, renderInlineRichText, renderRichText } from '../services/richText';
+import RichText from './RichText';
+import { type AnswerKey, type CatalogueVideo, type PracticeDiscussion, type PracticeProblem, type ProblemVerification, type TopicSummary } from '../types';
+import { SparklesIcon, ExportIcon, LightbulbIcon, StopIcon, TutorIcon } from './icons';
+import ProblemVideos from './ProblemVideos';
+import ErrorNotice from './ErrorNotice';
+import CachedNotice from './CachedNotice';
+import { findVideosForTopic, listVideos, videoUrlWithTimestamp } from '../services/videoCatalogue';
+import TopicPicker from './TopicPicker';
+import { type CurriculumTopic, DEFAULT_CURRICULUM_TOPIC } from '../data/curriculum';
+import { recordAnswer } from '../services/reviewQueue';
 
 const SummaryCard: React.FC<{ title: string; content: string; icon: string }> = ({ title, content, icon }) => (
     <div className="bg-white/50 dark:bg-slate-800/50 p-4 rounded-xl shadow-md backdrop-blur-sm border border-pink-100/50 dark:border-purple-800/50">
@@ -10,55 +19,168 @@ const SummaryCard: React.FC<{ title: string; content: string; icon: string }> =
             <span className="text-xl mr-2">{icon}</span>
             {title}
         </h4>
-        <p className="whitespace-pre-wrap text-sm text-slate-600 dark:text-slate-300">{content}</p>
+        <RichText text={content} className="text-sm text-slate-600 dark:text-slate-300" />
     </div>
 );
 
+const VerificationBadge: React.FC<{ verification: ProblemVerification }> = ({ verification }) => (
+    verification.status === 'verified' ? (
+        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300">
+            ✓ 答案已驗算
+        </span>
+    ) : verification.verifierAnswer ? (
+        <span
+            className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300"
+            title={`獨立驗算得到 ${verification.verifierAnswer.toUpperCase()}：${verification.verifierReasoning}`}
+        >
+            ⚠ 未驗證：驗算答案為 {verification.verifierAnswer.toUpperCase()}
+        </span>
+    ) : (
+        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300">
+            ⚠ 未驗證：驗算失敗
+        </span>
+    )
+);
+
+const verificationHtml = (verification?: ProblemVerification): string => {
+    if (!verification) return '';
+    return verification.status === 'verified'
+        ? '<p style="color: #15803d;"><strong>✓ 答案已通過獨立驗算</strong></p>'
+        : verification.verifierAnswer
+            ? `<p style="color: #b91c1c;"><strong>⚠ 未驗證：獨立驗算得到 ${verification.verifierAnswer.toUpperCase()}，與標示答案不同，請謹慎參考。</strong></p>`
+            : '<p style="color: #b45309;"><strong>⚠ 未驗證：無法完成獨立驗算，請謹慎參考。</strong></p>';
+};
+
+const videosHtml = ({ catalogueVideos, youtubeLink }: PracticeProblem): string => {
+    if (catalogueVideos && catalogueVideos.length > 0) {
+        const links = catalogueVideos.map(video => `<a href="${escapeHtml(videoUrlWithTimestamp(video))}">${escapeHtml(video.title)}</a>`).join('<br>');
+        return `<p><strong>參考影片：</strong><br>${links}</p>`;
+    }
+    // The model's link is only made clickable when it is a web address.
+    if (!youtubeLink) return '';
+    const link = escapeHtml(youtubeLink);
+    return `<p><strong>AI 建議的影片連結（未經確認，可能失效）：</strong>${/^https?:\/\//.test(youtubeLink) ? `<a href="${link}">${link}</a>` : link}</p>`;
+};
 
-const ProblemGenerator: React.FC = () => {
-  const [topic, setTopic] = useState<string>('動量守恆');
+// The catalogue is optional; if IndexedDB is unavailable the problems fall back to the model's link.
+const loadCatalogueVideos = async (): Promise<CatalogueVideo[]> => {
+    try {
+        return await listVideos();
+    } catch (e) {
+        console.error("Error loading video catalogue:", e);
+        return [];
+    }
+};
+
+interface ProblemGeneratorProps {
+  /** Opens the tutor on a problem the student answered wrongly. */
+  onDiscuss: (discussion: PracticeDiscussion) => void;
+  /** A topic to generate problems for as soon as the view opens, e.g. one suggested by a tutor recap. */
+  practiceTopic?: CurriculumTopic | null;
+  /** Called once the practice topic has been taken, so it is not generated again. */
+  onPracticeStarted?: () => void;
+}
+
+const ProblemGenerator: React.FC<ProblemGeneratorProps> = ({ onDiscuss, practiceTopic, onPracticeStarted }) => {
+  const [topic, setTopic] = useState<CurriculumTopic>(DEFAULT_CURRICULUM_TOPIC);
   const [numQuestions, setNumQuestions] = useState<number>(1);
   const [problems, setProblems] = useState<PracticeProblem[]>([]);
+  // The topic the shown problems were generated for; the picker may have moved on since.
+  const [problemsTopic, setProblemsTopic] = useState<CurriculumTopic>(DEFAULT_CURRICULUM_TOPIC);
   const [summary, setSummary] = useState<TopicSummary | null>(null);
+  // When the shown summary or problems came from the response cache, the time they were generated.
+  const [summaryCachedAt, setSummaryCachedAt] = useState<number | undefined>();
+  const [problemsCachedAt, setProblemsCachedAt] = useState<number | undefined>();
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const [verifyAnswers, setVerifyAnswers] = useState<boolean>(false);
+  const [mismatchPolicy, setMismatchPolicy] = useState<VerificationMismatchPolicy>('flag');
+  // The failed request is kept so the error notice can retry it.
+  const [error, setError] = useState<{ error: Error; retry: () => void } | null>(null);
+  // Problems that still failed validation after repair are dropped by the service; report how many.
+  const [droppedCount, setDroppedCount] = useState<number>(0);
   const [selectedOptions, setSelectedOptions] = useState<Record<number, string>>({});
   const [showSolutions, setShowSolutions] = useState<Record<number, boolean>>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleGenerateStudyPack = async () => {
-    if (!topic.trim()) return;
-    // Reset problems and error, but keep the summary if it exists
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!practiceTopic) return;
+    setTopic(practiceTopic);
+    handleGenerateStudyPack(false, practiceTopic);
+    onPracticeStarted?.();
+  }, []);
+
+  // Starts a request, returning the controller that cancels it.
+  const beginRequest = (): AbortController => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
+    return controller;
+  };
+
+  const endRequest = (controller: AbortController) => {
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    setIsLoading(false);
+    setIsVerifying(false);
+  };
+
+  const handleCancel = () => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
+    controller.abort();
+    endRequest(controller);
+  };
+
+  const handleGenerateStudyPack = async (regenerate = false, target: CurriculumTopic = topic) => {
+    // Reset problems and error, but keep the summary if it exists
+    const controller = beginRequest();
     setProblems([]);
+    setProblemsCachedAt(undefined);
+    setDroppedCount(0);
     setSelectedOptions({});
     setShowSolutions({});
 
     try {
-      const problemList = await generatePracticeProblem(topic, numQuestions);
-      setProblems(problemList);
+      const generated = await generatePracticeProblem(target, numQuestions, controller.signal, { regenerate });
+      let problemList = generated.value;
+      setDroppedCount(Math.max(0, numQuestions - problemList.length));
+      if (verifyAnswers) {
+        setIsVerifying(true);
+        problemList = await verifyPracticeProblems(target, problemList, mismatchPolicy, controller.signal);
+      }
+      const catalogueVideos = findVideosForTopic(await loadCatalogueVideos(), target);
+      if (controller.signal.aborted) return;
+      setProblems(problemList.map(problem => ({ ...problem, catalogueVideos })));
+      setProblemsTopic(target);
+      setProblemsCachedAt(generated.cachedAt);
     } catch (e) {
-      setError((e as Error).message || '無法生成學習包，請稍後再試。');
+      if (controller.signal.aborted) return;
+      setError({ error: e as Error, retry: () => handleGenerateStudyPack(regenerate, target) });
       console.error(e);
     } finally {
-      setIsLoading(false);
+      endRequest(controller);
     }
   };
 
-  const handleGenerateSummary = async () => {
-    if (!topic.trim()) return;
+  const handleGenerateSummary = async (regenerate = false) => {
      // Reset summary and error, but keep problems if they exist
-    setIsLoading(true);
-    setError(null);
+    const controller = beginRequest();
     setSummary(null);
+    setSummaryCachedAt(undefined);
     try {
-      const summaryData = await generateTopicSummary(topic);
-      setSummary(summaryData);
+      const { value, cachedAt } = await generateTopicSummary(topic, controller.signal, { regenerate });
+      setSummary(value);
+      setSummaryCachedAt(cachedAt);
     } catch (e) {
-      setError((e as Error).message || '無法生成核心總整理，請稍後再試。');
+      if (controller.signal.aborted) return;
+      setError({ error: e as Error, retry: () => handleGenerateSummary(regenerate) });
       console.error(e);
     } finally {
-      setIsLoading(false);
+      endRequest(controller);
     }
   }
 
@@ -69,59 +191,77 @@ const ProblemGenerator: React.FC = () => {
   
   const handleShowSolution = (problemIndex: number) => {
     setShowSolutions(prev => ({ ...prev, [problemIndex]: true }));
+    // Every answered problem goes into the review queue; a failure here must not block the solution.
+    recordAnswer(problems[problemIndex], problemsTopic.label, selectedOptions[problemIndex] as AnswerKey)
+      .catch(error => console.warn("The answer could not be added to the review queue:", error));
   }
 
+  const handleDiscuss = (problem: PracticeProblem, chosenAnswer: AnswerKey) => {
+    onDiscuss({
+      topic: problemsTopic.label,
+      problem: problem.problem,
+      options: problem.options,
+      correctAnswer: problem.correctAnswer,
+      chosenAnswer,
+      solution: problem.solution,
+    });
+  };
+
   const handleExportAll = () => {
     if (problems.length === 0 && !summary) return;
     
     const summaryHtml = summary ? `
-        <h2>${topic} - 核心總整理</h2>
+        <h2>${escapeHtml(topic.label)} - 核心總整理</h2>
         <div style="margin-bottom: 20px; padding: 10px; page-break-inside: avoid;">
             <h3>⭐ 重點觀念叮嚀</h3>
-            <p>${summary.keyConcepts.replace(/\n/g, '<br>')}</p>
+            ${renderRichText(summary.keyConcepts)}
         </div>
         <div style="margin-bottom: 20px; padding: 10px; page-break-inside: avoid;">
             <h3>📏 必背公式整理</h3>
-            <p>${summary.formulas.replace(/\n/g, '<br>')}</p>
+            ${renderRichText(summary.formulas)}
         </div>
         <div style="margin-bottom: 30px; padding: 10px; page-break-inside: avoid;">
             <h3>🔑 重要題型解題技巧</h3>
-            <p>${summary.solvingTechniques.replace(/\n/g, '<br>')}</p>
+            ${renderRichText(summary.solvingTechniques)}
         </div>
         <hr>
     ` : '';
     
     const allProblemsHtml = problems.map((problem, index) => {
-        const { problem: question, options, solution, correctAnswer, youtubeLink } = problem;
+        const { problem: question, options, solution, correctAnswer } = problem;
         const optionsHtml = Object.entries(options).map(([key, value]) => 
-          `<p style="margin: 4px 0;"><strong>${key.toUpperCase()}.</strong> ${value}</p>`
+          `<p style="margin: 4px 0;"><strong>${key.toUpperCase()}.</strong> ${renderInlineRichText(value)}</p>`
         ).join('');
-        const youtubeHtml = youtubeLink ? `<p><strong>參考影片：</strong><a href="${youtubeLink}">${youtubeLink}</a></p>` : '';
 
         return `
         <article style="margin-bottom: 30px; page-break-inside: avoid;">
             <h3>第 ${index + 1} 題：</h3>
-            <p>${question.replace(/\n/g, '<br>')}</p>
+            ${renderRichText(question)}
             <h4>選項：</h4>
             ${optionsHtml}
             <br>
             <p><strong>正確答案：${correctAnswer.toUpperCase()}</strong></p>
+            ${verificationHtml(problem.verification)}
             <h4>詳解：</h4>
-            <p>${solution.replace(/\n/g, '<br>')}</p>
-            ${youtubeHtml}
+            ${renderRichText(solution)}
+            ${videosHtml(problem)}
         </article>
         `;
     }).join('<hr style="margin: 20px 0;">');
 
+    // Record which prompt revisions produced the pack, so revisions can be compared later.
+    const promptVersions = [...new Set([summary?.promptVersion, ...problems.flatMap(p => [p.promptVersion, p.verification?.promptVersion])])].filter(Boolean);
+
     const htmlContent = `
       <div>
-        <h1>物理學習包：${topic}</h1>
+        <h1>物理學習包：${escapeHtml(topic.label)}</h1>
         ${summaryHtml}
         ${problems.length > 0 ? `<h2>${summary ? '練習題' : ''}</h2>` : ''}
         ${allProblemsHtml}
+        ${promptVersions.length > 0 ? `<p style="font-size: 8pt; color: #94a3b8;">提示版本：${promptVersions.join('、')}</p>` : ''}
       </div>`;
       
-    const filename = `物理學習包-${topic}`;
+    const filename = `物理學習包-${topic.label}`;
     exportToPdf(htmlContent, filename);
   };
 
@@ -147,13 +287,7 @@ const ProblemGenerator: React.FC = () => {
       </header>
       
       <div className="flex flex-col md:flex-row gap-2 items-stretch md:items-center mb-6">
-        <input
-          type="text"
-          value={topic}
-          onChange={(e) => setTopic(e.target.value)}
-          placeholder="例如：牛頓第二定律"
-          className="flex-grow p-3 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 min-w-[200px]"
-        />
+        <TopicPicker value={topic} onChange={setTopic} disabled={isLoading} />
          <div className="flex items-center gap-2">
             <label htmlFor="numQuestions" className="text-sm font-medium text-slate-600 dark:text-slate-300">題數:</label>
             <select
@@ -167,18 +301,36 @@ const ProblemGenerator: React.FC = () => {
                 ))}
             </select>
         </div>
+        <div className="flex flex-col gap-1 text-sm text-slate-600 dark:text-slate-300">
+            <label className="flex items-center gap-2">
+                <input type="checkbox" checked={verifyAnswers} onChange={(e) => setVerifyAnswers(e.target.checked)} disabled={isLoading} />
+                獨立驗算答案
+            </label>
+            {verifyAnswers && (
+                <select
+                    aria-label="驗算不一致時"
+                    value={mismatchPolicy}
+                    onChange={(e) => setMismatchPolicy(e.target.value as VerificationMismatchPolicy)}
+                    disabled={isLoading}
+                    className="p-1 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value="flag">不一致時標示未驗證</option>
+                    <option value="regenerate">不一致時重新出題</option>
+                </select>
+            )}
+        </div>
         <div className="flex gap-2 w-full md:w-auto">
             <button
-              onClick={handleGenerateSummary}
-              disabled={isLoading || !topic.trim()}
+              onClick={() => handleGenerateSummary()}
+              disabled={isLoading}
               className="flex-1 md:flex-initial flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-purple-500 text-white font-semibold disabled:bg-slate-400 hover:bg-purple-600 transition-colors"
             >
               <LightbulbIcon />
               <span className="hidden sm:inline">核心總整理</span>
             </button>
             <button
-              onClick={handleGenerateStudyPack}
-              disabled={isLoading || !topic.trim()}
+              onClick={() => handleGenerateStudyPack()}
+              disabled={isLoading}
               className="flex-1 md:flex-initial flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors"
             >
               <SparklesIcon />
@@ -187,12 +339,29 @@ const ProblemGenerator: React.FC = () => {
         </div>
       </div>
 
-      {isLoading && <div className="text-center p-8">正在為您準備學習包，請稍候...</div>}
-      {error && <div className="text-center p-8 text-red-500">{error}</div>}
+      {isLoading && (
+        <div className="flex flex-col items-center gap-4 p-8">
+          <p>{isVerifying ? '正在獨立驗算每一題的答案，請稍候...' : '正在為您準備學習包，請稍候...'}</p>
+          <button
+            onClick={handleCancel}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-500 text-white font-semibold hover:bg-red-600 transition-colors"
+          >
+            <StopIcon />
+            取消
+          </button>
+        </div>
+      )}
+      {error && <ErrorNotice error={error.error} onRetry={error.retry} className="mb-6" />}
+      {droppedCount > 0 && !isLoading && (
+        <div className="mb-6 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 text-sm">
+          有 {droppedCount} 題未通過格式檢查，已自動略過。
+        </div>
+      )}
       
       {summary && (
         <div className="mb-8 p-4 bg-pink-50 dark:bg-purple-900/20 border border-pink-200 dark:border-purple-800 rounded-2xl">
-            <h3 className="text-xl font-bold mb-4 text-slate-700 dark:text-white">《{topic}》核心總整理</h3>
+            <h3 className="text-xl font-bold mb-4 text-slate-700 dark:text-white">《{topic.label}》核心總整理</h3>
+            {summaryCachedAt && <CachedNotice cachedAt={summaryCachedAt} onRegenerate={() => handleGenerateSummary(true)} disabled={isLoading} className="-mt-2 mb-4" />}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <SummaryCard title="重點觀念叮嚀" content={summary.keyConcepts} icon="⭐" />
                 <SummaryCard title="必背公式整理" content={summary.formulas} icon="📏" />
@@ -201,11 +370,18 @@ const ProblemGenerator: React.FC = () => {
         </div>
       )}
 
+      {problemsCachedAt && problems.length > 0 && (
+        <CachedNotice cachedAt={problemsCachedAt} onRegenerate={() => handleGenerateStudyPack(true)} disabled={isLoading} className="mb-4" />
+      )}
+
       <div className="space-y-6">
         {problems.map((problem, index) => (
             <div key={index} className="bg-card-light dark:bg-card-dark p-6 rounded-2xl shadow-lg border border-pink-100 dark:border-purple-800">
-                <h3 className="text-lg font-semibold mb-4">練習題 {index + 1}</h3>
-                <p className="mb-6 whitespace-pre-wrap">{problem.problem}</p>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <h3 className="text-lg font-semibold">練習題 {index + 1}</h3>
+                    {problem.verification && <VerificationBadge verification={problem.verification} />}
+                </div>
+                <RichText text={problem.problem} className="mb-6" />
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
                     {Object.entries(problem.options).map(([key, value]) => {
@@ -230,7 +406,7 @@ const ProblemGenerator: React.FC = () => {
                         className={`p-4 rounded-xl border transition-all duration-300 cursor-pointer transform hover:scale-102 ${stateStyle || baseStyle}`}
                         >
                         <span className="font-bold mr-2">{key.toUpperCase()}.</span>
-                        {value}
+                        <RichText text={value} inline />
                         </div>
                     );
                     })}
@@ -244,24 +420,21 @@ const ProblemGenerator: React.FC = () => {
                     {showSolutions[index] ? '已顯示詳解' : '查看詳解'}
                 </button>
                 
+                {showSolutions[index] && selectedOptions[index] !== problem.correctAnswer && (
+                    <button
+                        onClick={() => handleDiscuss(problem, selectedOptions[index] as AnswerKey)}
+                        className="ml-3 inline-flex items-center gap-2 px-5 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 font-semibold hover:bg-pink-200 dark:hover:bg-slate-600 transition-colors"
+                    >
+                        <TutorIcon />
+                        和蘇格拉底討論
+                    </button>
+                )}
+
                 {showSolutions[index] && (
                     <div className="mt-6 border-t border-pink-200 dark:border-slate-700 pt-6">
                         <h4 className="text-lg font-semibold mb-4 text-green-600 dark:text-green-400">詳解：</h4>
-                        <p className="whitespace-pre-wrap text-slate-600 dark:text-slate-300 mb-4">{problem.solution}</p>
-                        {problem.youtubeLink && (
-                            <div className="mt-4">
-                                <h5 className="font-semibold text-slate-700 dark:text-slate-200 mb-1">觀念教學影片：</h5>
-                                <a 
-                                    href={problem.youtubeLink} 
-                                    target="_blank" 
-                                    rel="noopener noreferrer" 
-                                    className="inline-flex items-center text-red-600 dark:text-red-400 group"
-                                >
-                                    <YoutubeIcon />
-                                    <span className="break-all ml-2 group-hover:underline">{problem.youtubeLink}</span>
-                                </a>
-                            </div>
-                        )}
+                        <RichText text={problem.solution} className="text-slate-600 dark:text-slate-300 mb-4" />
+                        <ProblemVideos problem={problem} />
                     </div>
                 )}
             </div>
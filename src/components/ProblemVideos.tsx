@@ -0,0 +1,58 @@
+import React from 'react';
+import { type PracticeProblem } from '../types';
+import { formatTimestamp, videoUrlWithTimestamp } from '../services/videoCatalogue';
+import { YoutubeIcon } from './icons';
+
+/**
+ * Lists the catalogue videos for a problem. The model's own link is only shown,
+ * clearly labelled, when the catalogue has nothing for the topic.
+ */
+const ProblemVideos: React.FC<{ problem: PracticeProblem }> = ({ problem }) => {
+  const videos = problem.catalogueVideos ?? [];
+
+  if (videos.length > 0) {
+    return (
+      <div className="mt-4">
+        <h5 className="font-semibold text-slate-700 dark:text-slate-200 mb-1">觀念教學影片：</h5>
+        <ul className="space-y-1">
+          {videos.map(video => (
+            <li key={video.id}>
+              <a
+                href={videoUrlWithTimestamp(video)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center text-red-600 dark:text-red-400 group"
+              >
+                <YoutubeIcon />
+                <span className="ml-2 group-hover:underline">{video.title}</span>
+                {video.startSeconds ? <span className="ml-2 text-xs opacity-70">從 {formatTimestamp(video.startSeconds)} 開始</span> : null}
+                {video.channel && <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">{video.channel}</span>}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  // The link is model output; anything but a web address (e.g. `javascript:`) is not shown.
+  if (!problem.youtubeLink || !/^https?:\/\//.test(problem.youtubeLink)) return null;
+
+  return (
+    <div className="mt-4">
+      <h5 className="font-semibold text-slate-700 dark:text-slate-200 mb-1">AI 建議的影片連結：</h5>
+      <p className="text-xs text-amber-700 dark:text-amber-300 mb-1">影片目錄中尚無此主題的影片。此連結由 AI 產生、未經確認，可能已失效。</p>
+      <a
+        href={problem.youtubeLink}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center text-slate-500 dark:text-slate-400 group"
+      >
+        <YoutubeIcon />
+        <span className="break-all ml-2 group-hover:underline">{problem.youtubeLink}</span>
+      </a>
+    </div>
+  );
+};
+
+export default ProblemVideos;
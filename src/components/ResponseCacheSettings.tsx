@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { CACHE_TTL_MS, type CacheEntry, type CachedFeature, clearResponseCache, deleteCacheEntry, listCacheEntries, trimResponseCache } from '../services/responseCache';
+import { type CacheSettings, DEFAULT_SETTINGS, getSettings, updateSettings } from '../services/settingsStore';
+import { TrashIcon } from './icons';
+
+const FEATURE_LABELS: Record<CachedFeature, string> = {
+  summary: '核心總整理',
+  problems: '練習題',
+  simulation: '虛擬實驗',
+};
+
+const SIZE_LIMITS_MB = [1, 5, 20, 50];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatTime = (time: number): string => new Date(time).toLocaleString('zh-TW');
+
+/**
+ * Inspects and manages the local response cache: on/off, size limit, and per-entry deletion.
+ */
+const ResponseCacheSettings: React.FC = () => {
+  const [settings, setSettings] = useState<CacheSettings>(DEFAULT_SETTINGS.cache);
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setSettings((await getSettings()).cache);
+      setEntries(await listCacheEntries());
+    } catch (e) {
+      console.error(e);
+      setError('無法讀取快取。');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleChange = async (patch: Partial<CacheSettings>) => {
+    const next = await updateSettings('cache', patch);
+    setSettings(next.cache);
+    if (patch.maxBytes !== undefined) {
+      await trimResponseCache();
+      setEntries(await listCacheEntries());
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteCacheEntry(id);
+    setEntries(await listCacheEntries());
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('確定要清除所有快取的回應嗎？')) return;
+    await clearResponseCache();
+    setEntries([]);
+  };
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+
+  return (
+    <section className="p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">回應快取</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            核心總整理、練習題與虛擬實驗會儲存在這台裝置上，重複開啟同一主題時直接載入，不必再次呼叫 AI。
+          </p>
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 transition-colors text-sm"
+        >
+          <TrashIcon />
+          清除全部
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-6 mb-4 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => handleChange({ enabled: e.target.checked })} />
+          啟用回應快取
+        </label>
+        <label className="flex items-center gap-2">
+          容量上限
+          <select
+            value={settings.maxBytes}
+            onChange={(e) => handleChange({ maxBytes: Number(e.target.value) })}
+            className="p-1 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {SIZE_LIMITS_MB.map(mb => <option key={mb} value={mb * 1024 * 1024}>{mb} MB</option>)}
+          </select>
+        </label>
+        <span className="text-slate-500 dark:text-slate-400">
+          已使用 {formatBytes(totalBytes)} / {formatBytes(settings.maxBytes)}，共 {entries.length} 筆
+        </span>
+      </div>
+
+      <p className="mb-4 text-xs text-slate-500 dark:text-slate-400">
+        有效期限：{(Object.keys(CACHE_TTL_MS) as CachedFeature[]).map(feature => `${FEATURE_LABELS[feature]} ${CACHE_TTL_MS[feature] / DAY_MS} 天`).join('、')}。
+        超過容量時會先刪除最久未使用的項目。
+      </p>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">目前沒有快取的回應。</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-start gap-3 p-3 rounded-lg bg-white dark:bg-slate-800 border border-pink-100 dark:border-purple-800">
+              <div className="flex-1 min-w-0 text-sm">
+                <p className="font-medium truncate">
+                  <span className="mr-2 px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 text-xs">{FEATURE_LABELS[entry.feature]}</span>
+                  {entry.label}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {entry.model} · {formatBytes(entry.sizeBytes)} · 生成於 {formatTime(entry.createdAt)} · 最後使用 {formatTime(entry.lastUsedAt)} · 到期 {formatTime(entry.expiresAt)}
+                </p>
+              </div>
+              <button onClick={() => handleDelete(entry.id)} className="p-2 rounded hover:bg-red-100 dark:hover:bg-red-900/30" aria-label="刪除快取項目">
+                <TrashIcon />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ResponseCacheSettings;
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { type RecallQuality, type ReviewItem, deleteReview, listDueReviews, listReviews, rateReview } from '../services/reviewQueue';
+import { localDay } from '../services/usage';
+import { type AnswerKey } from '../types';
+import RichText from './RichText';
+import ProblemVideos from './ProblemVideos';
+import { TrashIcon } from './icons';
+
+const RATINGS: { quality: RecallQuality; label: string; className: string }[] = [
+  { quality: 1, label: '忘記了', className: 'bg-red-500 hover:bg-red-600' },
+  { quality: 3, label: '很吃力', className: 'bg-amber-500 hover:bg-amber-600' },
+  { quality: 4, label: '想得起來', className: 'bg-blue-600 hover:bg-blue-700' },
+  { quality: 5, label: '很輕鬆', className: 'bg-green-600 hover:bg-green-700' },
+];
+
+const formatInterval = (days: number): string => (days === 1 ? '明天' : `${days} 天後`);
+
+/**
+ * Serves the answered practice problems that are due today, one at a time. The student
+ * answers again, sees the solution and rates their own recall, which reschedules the problem.
+ * Everything is read from this device, so it works offline.
+ */
+const ReviewQueue: React.FC = () => {
+  const [due, setDue] = useState<ReviewItem[]>([]);
+  const [all, setAll] = useState<ReviewItem[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [selected, setSelected] = useState<AnswerKey | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedToday, setReviewedToday] = useState(0);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setDue(await listDueReviews());
+      setAll(await listReviews());
+    } catch (e) {
+      console.error(e);
+      setError('無法讀取複習題。');
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const current = due[0];
+
+  const showNext = () => {
+    setSelected(null);
+    setRevealed(false);
+  };
+
+  const handleRate = async (quality: RecallQuality) => {
+    // A second click before the save finishes would rate the next problem in the queue.
+    if (!current || !selected || isSaving) return;
+    setIsSaving(true);
+    try {
+      const next = await rateReview(current, selected, quality);
+      setReviewedToday(n => n + 1);
+      setLastResult(`下次複習：${formatInterval(next.intervalDays)}`);
+      // Forgotten problems are due again tomorrow, so the queue only ever shrinks.
+      setDue(prev => prev.slice(1));
+      setAll(prev => prev.map(item => (item.id === next.id ? next : item)));
+      showNext();
+    } catch (e) {
+      console.error(e);
+      setError('無法儲存複習結果，請再試一次。');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!current || !window.confirm('確定要把這題移出複習清單嗎？')) return;
+    try {
+      await deleteReview(current.id);
+      setDue(prev => prev.slice(1));
+      setAll(prev => prev.filter(item => item.id !== current.id));
+      setLastResult(null);
+      showNext();
+    } catch (e) {
+      console.error(e);
+      setError('無法移出複習清單，請再試一次。');
+    }
+  };
+
+  const nextDueDay = all.map(item => item.dueDay).filter(day => day > localDay()).sort()[0];
+
+  return (
+    <div className="p-4 md:p-8 h-full overflow-y-auto">
+      <header className="mb-6">
+        <h2 className="text-2xl font-bold text-slate-800 dark:text-white">今日複習</h2>
+        <p className="text-slate-500 dark:text-slate-400">
+          做過的練習題會依照記憶曲線安排複習。答錯或忘記的題目會更快再出現。
+        </p>
+      </header>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <div className="flex flex-wrap gap-4 mb-6 text-sm text-slate-600 dark:text-slate-300">
+        <span>今天待複習：{due.length} 題</span>
+        <span>今天已複習：{reviewedToday} 題</span>
+        <span>複習清單共 {all.length} 題</span>
+        {lastResult && <span className="text-green-600 dark:text-green-400">{lastResult}</span>}
+      </div>
+
+      {isLoaded && !current && (
+        <div className="p-6 rounded-2xl border border-pink-100 dark:border-purple-800 text-center text-slate-600 dark:text-slate-300">
+          {all.length === 0 ? (
+            <p>還沒有可複習的題目。到「動態練習題」作答並查看詳解後，題目就會加入複習清單。</p>
+          ) : (
+            <p>今天的複習都完成了！{nextDueDay && `下一次複習在 ${nextDueDay}。`}</p>
+          )}
+        </div>
+      )}
+
+      {current && (
+        <div className="bg-card-light dark:bg-card-dark p-6 rounded-2xl shadow-lg border border-pink-100 dark:border-purple-800">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-semibold">{current.topic}</h3>
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              已作答 {current.attempts.length} 次，上次{current.attempts[current.attempts.length - 1]?.correct ? '答對' : '答錯'}
+            </span>
+          </div>
+          <RichText text={current.problem.problem} className="mb-6" />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {(Object.entries(current.problem.options) as [AnswerKey, string][]).map(([key, value]) => {
+              let style = 'bg-white dark:bg-slate-800 hover:bg-pink-50 dark:hover:bg-slate-700 border-gray-200 dark:border-slate-700';
+              if (revealed && key === current.problem.correctAnswer) {
+                style = 'bg-green-100 dark:bg-green-900/50 border-green-500 text-green-800 dark:text-green-300 border-2';
+              } else if (revealed && key === selected) {
+                style = 'bg-red-100 dark:bg-red-900/50 border-red-500 text-red-800 dark:text-red-300 border-2';
+              } else if (key === selected) {
+                style = 'bg-blue-100 dark:bg-blue-900/50 border-pink-400 border-2 shadow-md';
+              }
+              return (
+                <div
+                  key={key}
+                  onClick={() => !revealed && setSelected(key)}
+                  className={`p-4 rounded-xl border transition-all duration-300 cursor-pointer ${style}`}
+                >
+                  <span className="font-bold mr-2">{key.toUpperCase()}.</span>
+                  <RichText text={value} inline />
+                </div>
+              );
+            })}
+          </div>
+
+          {!revealed ? (
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => setRevealed(true)}
+                disabled={!selected}
+                className="px-5 py-2 rounded-lg bg-pink-400 text-white font-semibold disabled:bg-slate-300 dark:disabled:bg-slate-600 disabled:opacity-70 hover:bg-pink-500 transition-colors"
+              >
+                查看詳解
+              </button>
+              <button onClick={handleDelete} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-slate-500 dark:text-slate-400 hover:underline">
+                <TrashIcon />
+                移出複習清單
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6 border-t border-pink-200 dark:border-slate-700 pt-6">
+                <h4 className="text-lg font-semibold mb-4 text-green-600 dark:text-green-400">詳解：</h4>
+                <RichText text={current.problem.solution} className="text-slate-600 dark:text-slate-300 mb-4" />
+                <ProblemVideos problem={current.problem} />
+              </div>
+              <p className="mb-2 text-sm font-medium">這題你記得多少？</p>
+              {selected !== current.problem.correctAnswer && (
+                <p className="mb-2 text-sm text-slate-500 dark:text-slate-400">這次答錯了，不論選哪一項，這題都會在明天再出現。</p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {RATINGS.map(rating => (
+                  <button
+                    key={rating.quality}
+                    onClick={() => handleRate(rating.quality)}
+                    disabled={isSaving}
+                    className={`px-4 py-2 rounded-lg text-white font-semibold disabled:opacity-50 transition-colors ${rating.className}`}
+                  >
+                    {rating.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
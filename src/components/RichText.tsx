@@ -0,0 +1,17 @@
+import React, { useMemo } from 'react';
+import { renderInlineRichText, renderRichText } from '../services/richText';
+
+interface RichTextProps {
+  text: string;
+  /** Renders without a surrounding paragraph, for short strings such as options. */
+  inline?: boolean;
+  className?: string;
+}
+
+const RichText: React.FC<RichTextProps> = ({ text, inline = false, className = '' }) => {
+  const html = useMemo(() => (inline ? renderInlineRichText(text) : renderRichText(text)), [text, inline]);
+  const Tag = inline ? 'span' : 'div';
+  return <Tag className={`rich-text ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default RichText;
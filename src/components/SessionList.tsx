@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { type TutorSession } from '../types';
+import { searchSessions } from '../services/sessionStore';
+import { EditIcon, TrashIcon } from './icons';
+
+interface SessionListProps {
+  sessions: TutorSession[];
+  activeSessionId: string;
+  onSelect: (session: TutorSession) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, activeSessionId, onSelect, onRename, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const visibleSessions = searchSessions(sessions, query);
+
+  const startEditing = (session: TutorSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) {
+      onRename(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: TutorSession) => {
+    if (window.confirm(`確定要刪除「${session.title}」嗎？`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 flex flex-col border-r border-pink-100 dark:border-purple-900/50 pr-4 mr-4">
+      <h3 className="text-lg font-semibold text-slate-800 dark:text-white mb-2">對話紀錄</h3>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="搜尋對話..."
+        className="w-full p-2 mb-3 text-sm bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <ul className="flex-1 overflow-y-auto space-y-1">
+        {visibleSessions.length === 0 && (
+          <li className="text-sm text-slate-400 p-2">{query ? '找不到符合的對話。' : '尚無儲存的對話。'}</li>
+        )}
+        {visibleSessions.map(session => (
+          <li
+            key={session.id}
+            className={`group flex items-center gap-1 p-2 rounded-lg text-sm cursor-pointer transition-colors ${
+              session.id === activeSessionId
+                ? 'bg-blue-600 text-white'
+                : 'text-slate-600 dark:text-slate-300 hover:bg-pink-100 dark:hover:bg-purple-900/40'
+            }`}
+            onClick={() => editingId !== session.id && onSelect(session)}
+          >
+            {editingId === session.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitEditing();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 p-1 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200"
+              />
+            ) : (
+              <div className="flex-1 min-w-0">
+                <p className="truncate font-medium">{session.title}</p>
+                <p className="text-xs opacity-70">{formatDate(session.updatedAt)}</p>
+              </div>
+            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); startEditing(session); }}
+              className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-black/10"
+              aria-label="重新命名"
+            >
+              <EditIcon />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+              className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-black/10"
+              aria-label="刪除對話"
+            >
+              <TrashIcon />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,22 @@
+import React from 'react';
+import AISettingsPanel from './AISettingsPanel';
+import ResponseCacheSettings from './ResponseCacheSettings';
+import FixtureSettings from './FixtureSettings';
+import TutorSettings from './TutorSettings';
+
+const Settings: React.FC = () => (
+  <div className="p-4 md:p-8 h-full overflow-y-auto">
+    <header className="mb-6">
+      <h2 className="text-2xl font-bold text-slate-800 dark:text-white">設定</h2>
+      <p className="text-slate-500 dark:text-slate-400">管理這台裝置上的 AI 功能設定與儲存的資料。</p>
+    </header>
+    <div className="space-y-6">
+      <AISettingsPanel />
+      <TutorSettings />
+      <ResponseCacheSettings />
+      <FixtureSettings />
+    </div>
+  </div>
+);
+
+export default Settings;
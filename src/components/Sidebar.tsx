@@ -1,7 +1,7 @@
 // Fix: Restored the full content of the file which was truncated, causing a missing export error.
 import React from 'react';
 import { type View } from '../types';
-import { TutorIcon, PracticeIcon, LabIcon, DiagramIcon, BrandIcon } from './icons';
+import { TutorIcon, PracticeIcon, LabIcon, DiagramIcon, BrandIcon, FilmIcon, ChartIcon, SettingsIcon, CalendarIcon } from './icons';
 
 interface SidebarProps {
   activeView: View;
@@ -12,8 +12,12 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView }) => {
   const navItems: { id: View; text: string; icon: React.ReactElement }[] = [
     { id: 'tutor', text: '蘇格拉底導師', icon: <TutorIcon /> },
     { id: 'practice', text: '動態練習題', icon: <PracticeIcon /> },
+    { id: 'review', text: '今日複習', icon: <CalendarIcon /> },
     { id: 'diagram', text: '圖表分析', icon: <DiagramIcon /> },
     { id: 'lab', text: '虛擬實驗室', icon: <LabIcon /> },
+    { id: 'videos', text: '影片目錄', icon: <FilmIcon /> },
+    { id: 'usage', text: '用量統計', icon: <ChartIcon /> },
+    { id: 'settings', text: '設定', icon: <SettingsIcon /> },
   ];
 
   return (
@@ -1,10 +1,197 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { type ChatMessage } from '../types';
-import { getSocraticResponse } from '../services/geminiService';
+import { type ChatImage, type ChatMessage, type ConversationMemory, type HintLevel, type MisconceptionTag, type PracticeDiscussion, type SessionRecap, type TutorMode, type TutorSession } from '../types';
+import { generateSessionRecap, getTutorPromptVersion, streamPracticeOpening, streamSocraticResponse, summarizeConversation, tagMisconception } from '../services/geminiService';
+import { getMisconception } from '../data/misconceptions';
+import { MAX_HINT_LEVEL, getHintLevel } from '../data/hintLadder';
+import { DEFAULT_TUTOR_MODE, TUTOR_MODES, getTutorMode } from '../data/tutorModes';
+import { type CurriculumTopic, findCurriculumTopic } from '../data/curriculum';
+import { getSettings } from '../services/settingsStore';
+import { MAX_IMAGES_PER_MESSAGE, imageDataUrl, readChatImage } from '../services/imageParts';
 import { exportToPdf } from '../services/exportService';
-import { SendIcon, UserIcon, ModelIcon, ExportIcon, RefreshIcon } from './icons';
+import { escapeHtml, renderInlineRichText, renderRichText } from '../services/richText';
+import RichText from './RichText';
+import { addBranch, conversationSignature, createSession, deleteSession, listSessions, messagesToCompact, modelContext, renameSession, saveSession, selectBranch, withAutoTitle } from '../services/sessionStore';
+import SessionList from './SessionList';
+import ErrorNotice from './ErrorNotice';
+import { SendIcon, UserIcon, ModelIcon, ExportIcon, RefreshIcon, StopIcon, HistoryIcon, LightbulbIcon, EditIcon, SparklesIcon, PracticeIcon, PhotoIcon, CameraIcon, CloseIcon } from './icons';
 
-const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
+const MisconceptionChip: React.FC<{ tag: MisconceptionTag }> = ({ tag }) => {
+  const misconception = getMisconception(tag.misconceptionId);
+  const confidence = Math.round(tag.confidence * 100);
+  if (!misconception) {
+    return (
+      <span className="inline-flex items-center mt-2 px-2 py-0.5 rounded-full text-xs bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400">
+        未偵測到迷思
+      </span>
+    );
+  }
+  return (
+    <span
+      className="inline-flex items-center gap-1 mt-2 px-2 py-0.5 rounded-full text-xs bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200"
+      title={misconception.description}
+    >
+      <span className="font-semibold">迷思：{misconception.label}</span>
+      <span className="opacity-70">· {tag.curriculumUnit || misconception.curriculumUnit} · {confidence}%</span>
+    </span>
+  );
+};
+
+/** The practice problem a session was opened from. The tutor is given it on every turn. */
+const PracticeContextCard: React.FC<{ practice: PracticeDiscussion }> = ({ practice }) => (
+  <details className="my-4 p-4 rounded-2xl bg-pink-50 dark:bg-slate-700/50 border border-pink-100 dark:border-purple-800 text-sm">
+    <summary className="cursor-pointer font-medium">
+      討論中的練習題（{practice.topic}）：你選了 {practice.chosenAnswer.toUpperCase()}，正確答案是 {practice.correctAnswer.toUpperCase()}
+    </summary>
+    <RichText text={practice.problem} className="mt-3" />
+    <ul className="mt-2 space-y-1">
+      {Object.entries(practice.options).map(([key, value]) => (
+        <li key={key} className={key === practice.chosenAnswer ? 'text-red-600 dark:text-red-400' : key === practice.correctAnswer ? 'text-green-600 dark:text-green-400' : ''}>
+          <span className="font-bold mr-2">{key.toUpperCase()}.</span>
+          <RichText text={value} inline />
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+const RecapList: React.FC<{ title: string; items: string[] }> = ({ title, items }) => (
+  <div>
+    <h4 className="font-semibold mb-1">{title}</h4>
+    {items.length > 0 ? (
+      <ul className="list-disc pl-5 space-y-1">
+        {items.map((item, index) => <li key={index}><RichText text={item} inline /></li>)}
+      </ul>
+    ) : (
+      <p className="text-slate-500 dark:text-slate-400">（無）</p>
+    )}
+  </div>
+);
+
+/** The 結束並總結 recap, with one click to practise each suggested topic. */
+const RecapCard: React.FC<{
+  recap: SessionRecap;
+  isOutdated: boolean;
+  onUpdate: () => void;
+  onPractice?: (topic: CurriculumTopic) => void;
+  disabled: boolean;
+}> = ({ recap, isOutdated, onUpdate, onPractice, disabled }) => (
+  <section className="my-6 p-5 rounded-2xl border-2 border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/20 text-sm space-y-4">
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <h3 className="text-lg font-bold text-green-700 dark:text-green-300">本次學習總結</h3>
+      <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(recap.createdAt).toLocaleString('zh-TW')}</span>
+    </div>
+    {isOutdated && (
+      <p className="text-amber-700 dark:text-amber-300">
+        總結之後對話又繼續了。
+        <button onClick={onUpdate} disabled={disabled} className="ml-2 underline disabled:opacity-50">更新總結</button>
+      </p>
+    )}
+    <RecapList title="學到的觀念" items={recap.concepts} />
+    <div>
+      <h4 className="font-semibold mb-1">發現並修正的迷思</h4>
+      {recap.misconceptions.length > 0 ? (
+        <ul className="list-disc pl-5 space-y-1">
+          {recap.misconceptions.map((item, index) => (
+            <li key={index}>
+              <span className="line-through text-slate-500 dark:text-slate-400"><RichText text={item.misconception} inline /></span>
+              {' → '}
+              <RichText text={item.correction} inline />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-slate-500 dark:text-slate-400">（無）</p>
+      )}
+    </div>
+    <RecapList title="用到的公式" items={recap.formulas} />
+    <div>
+      <h4 className="font-semibold mb-2">建議下一步練習</h4>
+      <div className="flex flex-wrap gap-2">
+        {recap.nextTopics.map((name, index) => {
+          const topic = findCurriculumTopic(name);
+          return (
+            <button
+              key={index}
+              onClick={() => onPractice?.(topic)}
+              disabled={!onPractice}
+              title={topic.courseName ? `${topic.courseName} › ${topic.unitName}` : undefined}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white dark:bg-slate-800 border border-green-300 dark:border-green-700 hover:bg-green-100 dark:hover:bg-green-900/40 disabled:opacity-50 transition-colors"
+            >
+              <PracticeIcon />
+              {topic.label}：產生練習題
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  </section>
+);
+
+const actionClassName = 'inline-flex items-center gap-1 px-2 py-0.5 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors';
+
+interface ChatBubbleProps {
+  message: ChatMessage;
+  /** Which version of the conversation from this message on is shown, when there are several. */
+  branch?: { index: number; count: number; onSelect?: (index: number) => void };
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+}
+
+/** The version switcher and the edit and regenerate actions under a bubble. */
+const MessageActions: React.FC<Omit<ChatBubbleProps, 'message'>> = ({ branch, onEdit, onRegenerate }) => {
+  if (!branch && !onEdit && !onRegenerate) return null;
+  return (
+    <div className="flex items-center gap-1 mt-1 text-xs text-slate-500 dark:text-slate-400">
+      {branch && (
+        <span className="inline-flex items-center">
+          <button onClick={() => branch.onSelect?.(branch.index - 1)} disabled={!branch.onSelect || branch.index === 0} className={actionClassName} aria-label="上一個版本">‹</button>
+          <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+          <button onClick={() => branch.onSelect?.(branch.index + 1)} disabled={!branch.onSelect || branch.index === branch.count - 1} className={actionClassName} aria-label="下一個版本">›</button>
+        </span>
+      )}
+      {onEdit && (
+        <button onClick={onEdit} className={actionClassName}>
+          <EditIcon />
+          編輯
+        </button>
+      )}
+      {onRegenerate && (
+        <button onClick={onRegenerate} className={actionClassName}>
+          <RefreshIcon />
+          重新產生
+        </button>
+      )}
+    </div>
+  );
+};
+
+/** Edits a student turn in place; sending it starts a new version of the conversation from there. */
+const MessageEditor: React.FC<{ message: ChatMessage; onSubmit: (text: string) => void; onCancel: () => void }> = ({ message, onSubmit, onCancel }) => {
+  const [text, setText] = useState(message.text);
+  return (
+    <div className="flex flex-col items-end gap-2 my-4 ml-14">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={3}
+        autoFocus
+        className="w-full max-w-xl p-3 bg-slate-100 dark:bg-slate-700 rounded-2xl focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="flex gap-2 text-sm">
+        <button onClick={onCancel} className="px-4 py-1.5 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors">取消</button>
+        <button
+          onClick={() => onSubmit(text)}
+          disabled={!text.trim() && !message.images?.length}
+          className="px-4 py-1.5 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors"
+        >
+          送出並重新回答
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ChatBubble: React.FC<ChatBubbleProps> = ({ message, ...actions }) => {
   const isUser = message.role === 'user';
   return (
     <div className={`flex items-start gap-4 my-4 ${isUser ? 'justify-end' : ''}`}>
@@ -13,14 +200,37 @@ const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
           <ModelIcon />
         </div>
       )}
-      <div
-        className={`max-w-xl p-4 shadow-md ${
-          isUser
-            ? 'bg-blue-600 text-white rounded-br-none'
-            : 'bg-slate-200 dark:bg-slate-700 text-slate-800 dark:text-slate-200 rounded-bl-none'
-        }`}
-      >
-        <p className="whitespace-pre-wrap">{message.text}</p>
+      <div className={`flex flex-col max-w-xl ${isUser ? 'items-end' : 'items-start'}`}>
+        {message.mode && (
+          <span className="inline-flex items-center mb-2 px-2 py-0.5 rounded-full text-xs bg-violet-100 dark:bg-violet-900/40 text-violet-800 dark:text-violet-200">
+            已切換為「{getTutorMode(message.mode).label}」
+          </span>
+        )}
+        {message.images && message.images.length > 0 && (
+          <div className={`flex flex-wrap gap-2 mb-2 ${isUser ? 'justify-end' : ''}`}>
+            {message.images.map((image, index) => (
+              <img key={index} src={imageDataUrl(image)} alt={`附加的圖片 ${index + 1}`} className="max-h-64 max-w-full rounded-lg shadow-md object-contain bg-white" />
+            ))}
+          </div>
+        )}
+        {message.text && (
+          <div
+            className={`p-4 shadow-md ${
+              isUser
+                ? 'bg-blue-600 text-white rounded-br-none'
+                : 'bg-slate-200 dark:bg-slate-700 text-slate-800 dark:text-slate-200 rounded-bl-none'
+            }`}
+          >
+            <RichText text={message.text} />
+          </div>
+        )}
+        {message.hintLevel && (
+          <span className="inline-flex items-center mt-2 px-2 py-0.5 rounded-full text-xs bg-sky-100 dark:bg-sky-900/40 text-sky-800 dark:text-sky-200">
+            提示 {message.hintLevel}／{MAX_HINT_LEVEL}：{getHintLevel(message.hintLevel).label}
+          </span>
+        )}
+        {message.misconception && <MisconceptionChip tag={message.misconception} />}
+        <MessageActions {...actions} />
       </div>
        {isUser && (
         <div className="flex-shrink-0 w-10 h-10 rounded-full bg-pink-200 dark:bg-pink-800 flex items-center justify-center text-pink-600 dark:text-pink-300">
@@ -31,79 +241,650 @@ const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
   );
 };
 
-const SocraticTutor: React.FC = () => {
-  const initialMessage: ChatMessage = { role: 'model', text: '你好！我是蘇格拉底導師。有什麼物理問題我可以引導你思考的嗎？' };
-  const [messages, setMessages] = useState<ChatMessage[]>([initialMessage]);
+/** Marks where the memory note takes over, and shows the note on request. */
+const MemoryNote: React.FC<{ memory: ConversationMemory }> = ({ memory }) => {
+  const [expanded, setExpanded] = useState(false);
+  return (
+    <div className="my-6 p-3 rounded-xl border border-dashed border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-sm">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="flex w-full justify-between items-center gap-4 text-left text-amber-800 dark:text-amber-200"
+        aria-expanded={expanded}
+      >
+        <span>以上 {memory.coveredCount} 則較早的訊息已整理成學習筆記，導師之後只會參考這份筆記和接下來的對話。</span>
+        <span className="flex-shrink-0 font-medium">{expanded ? '收起筆記' : '查看筆記'}</span>
+      </button>
+      {expanded && (
+        <div className="mt-3 pt-3 border-t border-amber-200 dark:border-amber-800 text-slate-700 dark:text-slate-300">
+          <RichText text={memory.summary} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const openingMessage = (mode: TutorMode): ChatMessage => ({ role: 'model', text: getTutorMode(mode).opening, tutorMode: mode });
+
+/**
+ * The teaching mode in effect just before `index`: the mode of the latest model message
+ * there. A regenerated or edited turn from before a mode switch keeps the earlier mode.
+ * @param fallback Used when no message says, e.g. in sessions saved before replies recorded their mode.
+ */
+const modeAt = (messages: ChatMessage[], index: number, fallback?: TutorMode): TutorMode | undefined => {
+  for (let i = Math.min(index, messages.length) - 1; i >= 0; i--) {
+    const mode = messages[i].tutorMode ?? messages[i].mode;
+    if (mode) return mode;
+  }
+  return fallback;
+};
+
+const newSession = (mode: TutorMode = DEFAULT_TUTOR_MODE): TutorSession => ({ ...createSession([openingMessage(mode)]), mode });
+
+// Recaps saved before signatures existed can only notice that the conversation grew.
+const isRecapOutdated = (recap: SessionRecap, messages: ChatMessage[]): boolean =>
+  recap.signature ? recap.signature !== conversationSignature(messages) : recap.messageCount < messages.length;
+
+const hasUserMessages = (session: TutorSession) => session.messages.some(msg => msg.role === 'user');
+
+const describeHintUsage = (session: TutorSession): string | null => {
+  const history = session.hints?.history ?? [];
+  if (history.length === 0) return null;
+  const highest = Math.max(...history.map(hint => hint.level)) as HintLevel;
+  return `本次對話使用提示 ${history.length} 次，最高到第 ${highest} 級「${getHintLevel(highest).label}」`;
+};
+
+interface SocraticTutorProps {
+  /** A wrong practice answer to open a new session on, handed over from the problem generator. */
+  discussion?: PracticeDiscussion | null;
+  /** Called once the tutor has taken the discussion, so it is not started again. */
+  onDiscussionStarted?: () => void;
+  /** Opens the problem generator on a topic suggested by the recap. */
+  onPracticeTopic?: (topic: CurriculumTopic) => void;
+}
+
+const SocraticTutor: React.FC<SocraticTutorProps> = ({ discussion, onDiscussionStarted, onPracticeTopic }) => {
+  const [session, setSession] = useState<TutorSession>(() => newSession());
+  const [sessions, setSessions] = useState<TutorSession[]>([]);
+  const [showSessions, setShowSessions] = useState(false);
   const [input, setInput] = useState('');
+  // Images waiting to go out with the next message.
+  const [attachments, setAttachments] = useState<ChatImage[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // The index of the student turn being edited in place.
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  // While an edit or regeneration streams, the messages from `at` on are hidden; they stay
+  // in the session, and become the other version, until the new reply arrives.
+  const [pendingBranch, setPendingBranch] = useState<{ at: number; userMessage?: ChatMessage } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // The reply being streamed in; null when no stream is active.
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  // A failed turn is taken back out of the conversation and its text restored to the input.
+  const [error, setError] = useState<{ error: Error; retry: () => void } | null>(null);
+  // The highest hint level set on this device.
+  const [maxHintLevel, setMaxHintLevel] = useState<HintLevel>(MAX_HINT_LEVEL);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Misconception tagging still running in the background for the current session.
+  const taggingControllersRef = useRef(new Set<AbortController>());
+  // Folding older turns into the memory note; at most one at a time.
+  const compactionControllerRef = useRef<AbortController | null>(null);
+  const [isCompacting, setIsCompacting] = useState(false);
+  const recapControllerRef = useRef<AbortController | null>(null);
+  const [isRecapping, setIsRecapping] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  // Mirrors the input so the restore on mount can tell whether the student has started typing.
+  const inputRef = useRef('');
+  inputRef.current = input;
+  const messages = session.messages;
+
+  const setMessages = (update: (prev: ChatMessage[]) => ChatMessage[]) => {
+    setSession(prev => withAutoTitle({ ...prev, messages: update(prev.messages), updatedAt: Date.now() }));
+  };
+
+  const refreshSessions = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error("Error loading tutor sessions:", error);
+    }
+  };
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingText]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  // Resume the most recent conversation on mount, unless a practice problem was handed over.
+  useEffect(() => {
+    listSessions()
+      .then(saved => {
+        setSessions(saved);
+        if (saved.length === 0 || discussion) return;
+        // The student may already have started on the fresh session while the list loaded.
+        setSession(current => (hasUserMessages(current) || current.practice || inputRef.current ? current : saved[0]));
+      })
+      .catch(error => console.error("Error loading tutor sessions:", error));
+    if (discussion) {
+      startPracticeDiscussion(discussion);
+      onDiscussionStarted?.();
+    }
+    getSettings().then(settings => setMaxHintLevel(settings.tutor.maxHintLevel));
+    return () => {
+      abortControllerRef.current?.abort();
+      abortTagging();
+      abortCompaction();
+      abortRecap();
+    };
+  }, []);
+
+  // Persist the session once the student has said something.
+  useEffect(() => {
+    if (!hasUserMessages(session)) return;
+    saveSession(session)
+      .then(refreshSessions)
+      .catch(error => console.error("Error saving tutor session:", error));
+  }, [session]);
+
+  // Fold older turns into the memory note once the conversation passes the threshold.
+  useEffect(() => {
+    if (isLoading || compactionControllerRef.current) return;
+    const toCompact = messagesToCompact(session);
+    if (toCompact.length > 0) compactConversation(session, toCompact);
+  }, [session, isLoading]);
+
+  /**
+   * Streams the tutor's reply to a student turn and puts both in the conversation.
+   * @param userMessage The student's turn.
+   * @param at The index of the student's turn in the conversation.
+   * @param mode 'send' appends the turn; 'edit' starts a new version at `at` with the edited
+   *   turn; 'regenerate' keeps the turn and starts a new version after it with a new reply.
+   *   Edits and regenerations keep the replaced messages as another version.
+   */
+  const runTurn = async (userMessage: ChatMessage, at: number, mode: 'send' | 'edit' | 'regenerate') => {
+    if (isLoading) return;
 
-    const userMessage: ChatMessage = { role: 'user', text: input.trim() };
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
+    const branchAt = mode === 'regenerate' ? at + 1 : at;
+    if (mode === 'send') {
+      setMessages(prev => [...prev, userMessage]);
+    } else {
+      setPendingBranch({ at: branchAt, userMessage: mode === 'edit' ? userMessage : undefined });
+    }
+    setEditingIndex(null);
+    setError(null);
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let responseText = '';
+    const { memory, recent } = modelContext({ ...session, messages: messages.slice(0, at) });
+    const { hintLevel, images } = userMessage;
+    const turnMode = modeAt(messages, at, session.mode);
+
     try {
-      const responseText = await getSocraticResponse(messages, userMessage.text);
-      const modelMessage: ChatMessage = { role: 'model', text: responseText };
-      setMessages(prev => [...prev, modelMessage]);
+      for await (const chunk of streamSocraticResponse(recent, userMessage.text, controller.signal, { memory, hintLevel, images, practice: session.practice, mode: turnMode })) {
+        responseText += chunk;
+        setStreamingText(responseText);
+      }
+      // A stopped stream keeps whatever text arrived before the stop, unless the chat was cleared meanwhile.
+      if (responseText && abortControllerRef.current === controller) {
+        const modelMessage: ChatMessage = { role: 'model', text: responseText, promptVersion: getTutorPromptVersion(turnMode), tutorMode: turnMode ?? DEFAULT_TUTOR_MODE };
+        if (mode === 'send') {
+          setMessages(prev => [...prev, modelMessage]);
+        } else {
+          setMessages(prev => addBranch(prev, branchAt, mode === 'edit' ? [userMessage, modelMessage] : [modelMessage]));
+        }
+        if (hintLevel) {
+          if (mode === 'send') recordHint(hintLevel);
+        } else if (!controller.signal.aborted) {
+          attachMisconceptionTag(recent, userMessage.text, modelMessage);
+        }
+      }
     } catch (error) {
       console.error("Error getting Socratic response:", error);
-      const errorMessage: ChatMessage = { role: 'model', text: (error as Error).message || '抱歉，我現在無法回答。請稍後再試。' };
-      setMessages(prev => [...prev, errorMessage]);
+      if (abortControllerRef.current !== controller) return;
+      if (mode === 'send') {
+        setMessages(prev => prev.filter(msg => msg !== userMessage));
+        if (!hintLevel) {
+          setInput(userMessage.text);
+          setAttachments(images ?? []);
+        }
+      }
+      setError({ error: error as Error, retry: () => runTurn(userMessage, at, mode) });
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setPendingBranch(null);
+      setStreamingText(null);
       setIsLoading(false);
     }
   };
 
-  const handleClearChat = () => {
-    if (window.confirm('確定要清除所有對話記錄並重新開始嗎？')) {
-        setMessages([initialMessage]);
+  /**
+   * Sends a new student turn.
+   * @param text What the student typed, or what a hint turn shows in the chat.
+   * @param turn A hint level to ask for a hint instead of answering the text, or images sent with it.
+   */
+  const sendMessage = (text: string, turn: { hintLevel?: HintLevel; images?: ChatImage[] } = {}) => {
+    const { hintLevel, images = [] } = turn;
+    if ((!text && images.length === 0) || isLoading) return;
+
+    const userMessage: ChatMessage = hintLevel
+      ? { role: 'user', text, hintLevel }
+      : images.length > 0 ? { role: 'user', text, images } : { role: 'user', text };
+    if (!hintLevel) {
+      setInput('');
+      setAttachments([]);
+      setAttachError(null);
+    }
+    runTurn(userMessage, messages.length, 'send');
+  };
+
+  const handleEditSubmit = (index: number, text: string) => {
+    const original = messages[index];
+    if (!text.trim() && !original.images?.length) return;
+    const edited: ChatMessage = original.images ? { role: 'user', text: text.trim(), images: original.images } : { role: 'user', text: text.trim() };
+    runTurn(edited, index, 'edit');
+  };
+
+  // A reply is regenerated from the student turn just before it.
+  const handleRegenerate = (index: number) => {
+    runTurn(messages[index - 1], index - 1, 'regenerate');
+  };
+
+  // The shown branch may end before or after a mode switch, so the session's mode follows it.
+  const handleSelectBranch = (index: number, branch: number) => {
+    setSession(prev => {
+      const messages = selectBranch(prev.messages, index, branch);
+      return withAutoTitle({ ...prev, messages, mode: modeAt(messages, messages.length, prev.mode), updatedAt: Date.now() });
+    });
+  };
+
+  const coveredCount = session.memory?.coveredCount ?? 0;
+  const shownMessages = pendingBranch
+    ? [...messages.slice(0, pendingBranch.at), ...(pendingBranch.userMessage ? [pendingBranch.userMessage] : [])]
+    : messages;
+
+  // Opens a new session on a wrong practice answer. The tutor speaks first, probing the chosen option.
+  // The discussion keeps the teaching mode the student had picked.
+  const startPracticeDiscussion = (practice: PracticeDiscussion) => {
+    detachStream();
+    setSession({ ...createSession([]), title: `討論：${practice.topic}練習題`, practice, mode: session.mode });
+    openPracticeDiscussion(practice, session.mode);
+  };
+
+  // Streams the tutor's opening into the current, still empty, discussion session.
+  const openPracticeDiscussion = async (practice: PracticeDiscussion, mode?: TutorMode) => {
+    setError(null);
+    setIsLoading(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let responseText = '';
+
+    try {
+      for await (const chunk of streamPracticeOpening(practice, controller.signal, mode)) {
+        responseText += chunk;
+        setStreamingText(responseText);
+      }
+      if (responseText && abortControllerRef.current === controller) {
+        setMessages(prev => [...prev, { role: 'model', text: responseText, promptVersion: getTutorPromptVersion(mode), tutorMode: mode ?? DEFAULT_TUTOR_MODE }]);
+      }
+    } catch (error) {
+      console.error("Error opening the practice discussion:", error);
+      if (abortControllerRef.current !== controller) return;
+      // The retry runs the latest render's handler, so it sees the state at the time of the click.
+      setError({ error: error as Error, retry: () => openPracticeDiscussionRef.current(practice, mode) });
+    } finally {
+      // A discussion replaced before it opened must not end the loading state of the one that replaced it.
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setStreamingText(null);
         setIsLoading(false);
+      }
     }
   };
 
+  const openPracticeDiscussionRef = useRef(openPracticeDiscussion);
+  openPracticeDiscussionRef.current = openPracticeDiscussion;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendMessage(input.trim(), { images: attachments });
+  };
+
+  const addImages = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    const room = MAX_IMAGES_PER_MESSAGE - attachments.length;
+    setAttachError(images.length > room ? `每則訊息最多附加 ${MAX_IMAGES_PER_MESSAGE} 張圖片。` : null);
+    if (room <= 0) return;
+    try {
+      const read = await Promise.all(images.slice(0, room).map(readChatImage));
+      setAttachments(prev => [...prev, ...read].slice(0, MAX_IMAGES_PER_MESSAGE));
+    } catch (error) {
+      console.error("Error reading attached image:", error);
+      setAttachError('無法讀取這張圖片，請換一張再試。');
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    addImages(files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+    e.preventDefault();
+    addImages(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isLoading) addImages(Array.from(e.dataTransfer.files));
+  };
+
+  const currentMode = getTutorMode(session.mode);
+
+  // Before the student has said anything the greeting is swapped; later, the tutor announces the new mode.
+  const handleModeChange = (mode: TutorMode) => {
+    if (mode === currentMode.id || isLoading) return;
+    setSession(prev => {
+      const isUntouched = !hasUserMessages(prev) && !prev.practice && prev.messages.length <= 1;
+      const messages = isUntouched ? [openingMessage(mode)] : [...prev.messages, { ...openingMessage(mode), mode }];
+      return { ...prev, mode, messages, updatedAt: Date.now() };
+    });
+  };
+
+  const currentHintLevel = session.hints?.currentLevel ?? 0;
+  const nextHintLevel = currentHintLevel < maxHintLevel ? (currentHintLevel + 1) as HintLevel : null;
+
+  // Each press climbs one rung of the ladder, up to the configured cap.
+  const handleStuck = () => {
+    if (nextHintLevel) sendMessage('我卡住了', { hintLevel: nextHintLevel });
+  };
+
+  const recordHint = (level: HintLevel) => {
+    setSession(prev => ({
+      ...prev,
+      hints: { currentLevel: level, history: [...(prev.hints?.history ?? []), { level, at: Date.now() }] },
+    }));
+  };
+
+  // Starts the ladder over for a new problem; the hints already given stay in the record.
+  const handleResetHints = () => {
+    setSession(prev => ({ ...prev, hints: { currentLevel: 0, history: prev.hints?.history ?? [] } }));
+  };
+
+  // Tagging runs after the reply is shown so it never delays the conversation.
+  const attachMisconceptionTag = async (history: ChatMessage[], studentMessage: string, modelMessage: ChatMessage) => {
+    const controller = new AbortController();
+    taggingControllersRef.current.add(controller);
+    try {
+      const tag = await tagMisconception(history, studentMessage, modelMessage.text, controller.signal);
+      setMessages(prev => prev.map(msg => (msg === modelMessage ? { ...msg, misconception: tag } : msg)));
+    } catch (error) {
+      if (!controller.signal.aborted) console.error("Error tagging misconception:", error);
+    } finally {
+      taggingControllersRef.current.delete(controller);
+    }
+  };
+
+  const compactConversation = async (target: TutorSession, toCompact: ChatMessage[]) => {
+    const controller = new AbortController();
+    compactionControllerRef.current = controller;
+    setIsCompacting(true);
+    const coveredCount = (target.memory?.coveredCount ?? 0) + toCompact.length;
+    try {
+      const note = await summarizeConversation(target.memory?.summary, toCompact, controller.signal);
+      const memory: ConversationMemory = { summary: note.text, coveredCount, updatedAt: Date.now(), promptVersion: note.promptVersion };
+      setSession(prev => (prev.id === target.id ? { ...prev, memory } : prev));
+    } catch (error) {
+      // The turns stay verbatim; the next message tries again.
+      if (!controller.signal.aborted) console.error("Error compacting the conversation:", error);
+    } finally {
+      if (compactionControllerRef.current === controller) {
+        compactionControllerRef.current = null;
+        setIsCompacting(false);
+      }
+    }
+  };
+
+  // Writes the recap and keeps it with the session; it can be rewritten after the conversation goes on.
+  const handleRecap = async () => {
+    recapControllerRef.current?.abort();
+    const controller = new AbortController();
+    recapControllerRef.current = controller;
+    const target = session;
+    setIsRecapping(true);
+    setError(null);
+    try {
+      const recap = await generateSessionRecap(target.messages, target.memory, controller.signal);
+      setSession(prev => (prev.id === target.id ? { ...prev, recap, updatedAt: Date.now() } : prev));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Error generating the session recap:", error);
+      setError({ error: error as Error, retry: handleRecap });
+    } finally {
+      if (recapControllerRef.current === controller) {
+        recapControllerRef.current = null;
+        setIsRecapping(false);
+      }
+    }
+  };
+
+  const abortRecap = () => {
+    recapControllerRef.current?.abort();
+    recapControllerRef.current = null;
+    setIsRecapping(false);
+  };
+
+  const abortCompaction = () => {
+    compactionControllerRef.current?.abort();
+    compactionControllerRef.current = null;
+    setIsCompacting(false);
+  };
+
+  const abortTagging = () => {
+    taggingControllersRef.current.forEach(controller => controller.abort());
+    taggingControllersRef.current.clear();
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Stops any in-flight reply and tagging, and detaches the reply so it never lands in another session.
+  const detachStream = () => {
+    const controller = abortControllerRef.current;
+    abortControllerRef.current = null;
+    controller?.abort();
+    abortTagging();
+    abortCompaction();
+    abortRecap();
+    setPendingBranch(null);
+    setEditingIndex(null);
+    setIsLoading(false);
+    setError(null);
+  };
+
+  const handleClearChat = () => {
+    detachStream();
+    setSession(newSession(session.mode));
+  };
+
+  const handleSelectSession = (selected: TutorSession) => {
+    if (selected.id === session.id) return;
+    detachStream();
+    setSession(selected);
+  };
+
+  const handleRenameSession = async (id: string, title: string) => {
+    if (id === session.id) {
+      setSession(prev => ({ ...prev, title: title.trim() || prev.title, updatedAt: Date.now() }));
+      return;
+    }
+    try {
+      await renameSession(id, title);
+    } catch (e) {
+      console.error("Error renaming tutor session:", e);
+      setError({ error: new Error('無法重新命名對話，請再試一次。'), retry: () => handleRenameSession(id, title) });
+      return;
+    }
+    await refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (e) {
+      console.error("Error deleting tutor session:", e);
+      setError({ error: new Error('無法刪除對話，請再試一次。'), retry: () => handleDeleteSession(id) });
+      return;
+    }
+    if (id === session.id) {
+      detachStream();
+      setSession(newSession(session.mode));
+    }
+    await refreshSessions();
+  };
+
   const handleExport = () => {
-    const title = '<h1>蘇格拉底導師對話記錄</h1>';
-    const conversationHtml = messages.map(msg => `
+    const title = `<h1>蘇格拉底導師對話記錄：${escapeHtml(session.title)}</h1>`;
+    const hintUsage = describeHintUsage(session);
+    const recap = session.recap;
+    const recapList = (items: string[]) => (items.length > 0 ? `<ul>${items.map(item => `<li>${renderInlineRichText(item)}</li>`).join('')}</ul>` : '<p>（無）</p>');
+    const recapHtml = recap ? `
+      <div style="margin-top: 16px; padding: 8px 12px; border: 2px solid #86efac; page-break-inside: avoid;">
+        <h3>本次學習總結</h3>
+        <h4>學到的觀念</h4>${recapList(recap.concepts)}
+        <h4>發現並修正的迷思</h4>${recapList(recap.misconceptions.map(item => `${item.misconception} → ${item.correction}`))}
+        <h4>用到的公式</h4>${recapList(recap.formulas)}
+        <h4>建議下一步練習</h4>${recapList(recap.nextTopics)}
+      </div>` : '';
+    const modeLabel = getTutorMode(session.mode).label;
+    const practice = session.practice;
+    const practiceHtml = practice ? `
+      <div style="margin-bottom: 16px; padding: 8px 12px; border: 1px solid #f9a8d4; page-break-inside: avoid;">
+        <p><strong>討論的練習題（${escapeHtml(practice.topic)}）</strong></p>
+        ${renderRichText(practice.problem)}
+        ${Object.entries(practice.options).map(([key, value]) => `<p>(${key.toUpperCase()}) ${renderInlineRichText(value)}</p>`).join('')}
+        <p>你的答案：${practice.chosenAnswer.toUpperCase()}　正確答案：${practice.correctAnswer.toUpperCase()}</p>
+      </div>` : '';
+    const memory = session.memory;
+    const memoryHtml = memory ? `<div style="margin: 16px 0; padding: 8px 12px; border: 1px dashed #f59e0b; page-break-inside: avoid;"><p><strong>學習筆記（整理自以上 ${memory.coveredCount} 則訊息）</strong></p>${renderRichText(memory.summary)}</div>` : '';
+    const conversationHtml = messages.map((msg, index) => {
+      const tag = msg.misconception;
+      const misconception = tag && getMisconception(tag.misconceptionId);
+      const tagHtml = tag && misconception ? `<p style="font-size: 9pt; color: #b45309;">迷思：${misconception.label}（${tag.curriculumUnit || misconception.curriculumUnit}，${Math.round(tag.confidence * 100)}%）</p>` : '';
+      const imagesHtml = (msg.images ?? []).map(image => `<img src="${imageDataUrl(image)}" style="max-width: 320px; max-height: 320px; margin: 4px 8px 4px 0;">`).join('');
+      const modeHtml = msg.mode ? ` <span style="font-size: 9pt; color: #6d28d9;">（切換為「${getTutorMode(msg.mode).label}」）</span>` : '';
+      const hintHtml = msg.hintLevel ? ` <span style="font-size: 9pt; color: #0369a1;">（提示 ${msg.hintLevel}：${getHintLevel(msg.hintLevel).label}）</span>` : '';
+      return `
       <div style="margin-bottom: 12px; page-break-inside: avoid;">
-        <p><strong>${msg.role === 'user' ? '你' : '蘇格拉底導師'}:</strong></p>
-        <div>${msg.text.replace(/\n/g, '<br>')}</div>
+        <p><strong>${msg.role === 'user' ? '你' : '蘇格拉底導師'}:</strong>${hintHtml}${modeHtml}</p>
+        ${imagesHtml ? `<div>${imagesHtml}</div>` : ''}
+        ${msg.text ? `<div>${renderRichText(msg.text)}</div>` : ''}
+        ${tagHtml}
       </div>
-    `).join('');
+      ${memory && index === memory.coveredCount - 1 ? memoryHtml : ''}
+    `;
+    }).join('');
     const fullHtml = `
       <div>
         ${title}
+        <p>教學模式：${modeLabel}</p>
+        ${hintUsage ? `<p>${hintUsage}</p>` : ''}
         <hr>
+        ${practiceHtml}
         ${conversationHtml}
+        ${recapHtml}
       </div>`;
     
     exportToPdf(fullHtml, '物理導師對話記錄');
   };
 
   return (
-    <div className="flex flex-col h-full p-4 md:p-6">
+    <div className="flex h-full p-4 md:p-6">
+      {showSessions && (
+        <SessionList
+          sessions={sessions}
+          activeSessionId={session.id}
+          onSelect={handleSelectSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+        />
+      )}
+      <div
+        className={`relative flex flex-col flex-1 min-w-0 ${isDragging ? 'rounded-2xl ring-2 ring-blue-500 ring-offset-4 dark:ring-offset-slate-900' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDragging && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center rounded-2xl bg-blue-50/80 dark:bg-slate-900/80 text-blue-600 dark:text-blue-300 font-semibold pointer-events-none">
+            放開以附加圖片
+          </div>
+        )}
        <header className="mb-4 flex justify-between items-start">
         <div>
             <h2 className="text-2xl font-bold text-slate-800 dark:text-white">蘇格拉底導師</h2>
-            <p className="text-slate-500 dark:text-slate-400">透過提問探索物理，而不是直接尋找答案。</p>
+            <p className="text-slate-500 dark:text-slate-400">{currentMode.description}</p>
+            <div role="radiogroup" aria-label="教學模式" className="flex flex-wrap gap-2 my-2">
+              {TUTOR_MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  role="radio"
+                  aria-checked={mode.id === currentMode.id}
+                  onClick={() => handleModeChange(mode.id)}
+                  disabled={isLoading}
+                  title={mode.description}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors disabled:opacity-50 ${mode.id === currentMode.id ? 'bg-blue-600 text-white' : 'bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-slate-400 dark:text-slate-500 truncate">目前對話：{session.title}</p>
+            {describeHintUsage(session) && <p className="text-sm text-sky-600 dark:text-sky-400">{describeHintUsage(session)}</p>}
         </div>
         <div className="flex gap-2">
+            <button 
+                onClick={() => setShowSessions(prev => !prev)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${showSessions ? 'bg-blue-600 text-white' : 'bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600'}`}
+                aria-label="對話紀錄"
+            >
+                <HistoryIcon />
+                <span className="hidden sm:inline text-sm font-medium">對話紀錄</span>
+            </button>
+            <button
+                onClick={handleRecap}
+                disabled={isLoading || isRecapping || !hasUserMessages(session)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 hover:bg-green-200 dark:hover:bg-green-900/70 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                aria-label="結束並總結"
+            >
+                <SparklesIcon />
+                <span className="hidden sm:inline text-sm font-medium">{isRecapping ? '總結中…' : '結束並總結'}</span>
+            </button>
             <button 
                 onClick={handleClearChat}
-                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-red-100 dark:hover:bg-red-900/30 text-slate-700 dark:text-slate-200 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                aria-label="清除對話"
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600 transition-colors"
+                aria-label="開始新對話"
             >
                 <RefreshIcon />
-                <span className="hidden sm:inline text-sm font-medium">重新開始</span>
+                <span className="hidden sm:inline text-sm font-medium">新對話</span>
             </button>
             <button 
                 onClick={handleExport}
@@ -116,10 +897,45 @@ const SocraticTutor: React.FC = () => {
         </div>
       </header>
       <div className="flex-1 overflow-y-auto pr-4 -mr-4">
-        {messages.map((msg, index) => (
-          <ChatBubble key={index} message={msg} />
-        ))}
-        {isLoading && (
+        {session.practice && <PracticeContextCard practice={session.practice} />}
+        {shownMessages.map((msg, index) => {
+          // Turns covered by the memory note are no longer sent to the model, so they cannot be changed.
+          const isCovered = index < coveredCount;
+          const canChange = index > 0 && !isCovered && !isLoading && !isCompacting;
+          const branches = index > 0 && !(pendingBranch && index >= pendingBranch.at) ? shownMessages[index - 1].branches : undefined;
+          return (
+            <React.Fragment key={index}>
+              {editingIndex === index ? (
+                <MessageEditor message={msg} onSubmit={text => handleEditSubmit(index, text)} onCancel={() => setEditingIndex(null)} />
+              ) : (
+                <div className={isCovered ? 'opacity-60' : ''}>
+                  <ChatBubble
+                    message={msg}
+                    branch={branches && {
+                      index: branches.index,
+                      count: branches.others.length + 1,
+                      onSelect: canChange ? branch => handleSelectBranch(index, branch) : undefined,
+                    }}
+                    onEdit={canChange && msg.role === 'user' && !msg.hintLevel ? () => setEditingIndex(index) : undefined}
+                    onRegenerate={canChange && index - 1 >= coveredCount && msg.role === 'model' && !msg.mode && shownMessages[index - 1].role === 'user' ? () => handleRegenerate(index) : undefined}
+                  />
+                </div>
+              )}
+              {session.memory && index === session.memory.coveredCount - 1 && <MemoryNote memory={session.memory} />}
+            </React.Fragment>
+          );
+        })}
+        {streamingText && <ChatBubble message={{ role: 'model', text: streamingText }} />}
+        {session.recap && !pendingBranch && (
+          <RecapCard
+            recap={session.recap}
+            isOutdated={isRecapOutdated(session.recap, messages)}
+            onUpdate={handleRecap}
+            onPractice={onPracticeTopic}
+            disabled={isLoading || isRecapping}
+          />
+        )}
+        {isLoading && !streamingText && (
             <div className="flex items-start gap-4 my-4">
                 <div className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center text-white" style={{background: 'linear-gradient(135deg, #C973FF, #7A9DFF)'}}><ModelIcon /></div>
                 <div className="max-w-xl p-4 rounded-2xl bg-slate-200 dark:bg-slate-700 rounded-bl-none shadow-md">
@@ -134,25 +950,99 @@ const SocraticTutor: React.FC = () => {
         )}
         <div ref={chatEndRef} />
       </div>
-      <form onSubmit={handleSubmit} className="mt-4">
-        <div className="relative">
+      {isCompacting && <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">正在把較早的對話整理成學習筆記…</p>}
+      {error && <ErrorNotice error={error.error} onRetry={error.retry} className="mt-4" />}
+      <p className="mt-4 text-xs text-slate-500 dark:text-slate-400">{currentMode.tip}</p>
+      {currentMode.hintLadder && (
+        <div className="mt-2 flex flex-wrap items-center gap-3 text-sm">
+          <button
+            type="button"
+            onClick={handleStuck}
+            disabled={isLoading || !nextHintLevel}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-sky-100 dark:bg-sky-900/40 text-sky-800 dark:text-sky-200 hover:bg-sky-200 dark:hover:bg-sky-900/70 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <LightbulbIcon />
+            我卡住了
+            {nextHintLevel && <span className="opacity-70">（下一步：{getHintLevel(nextHintLevel).label}）</span>}
+          </button>
+          {!nextHintLevel && (
+            <span className="text-slate-500 dark:text-slate-400">
+              已達設定的提示上限（{getHintLevel(maxHintLevel).label}），試著根據提示自己完成吧！
+            </span>
+          )}
+          {currentHintLevel > 0 && (
+            <button type="button" onClick={handleResetHints} disabled={isLoading} className="text-slate-500 dark:text-slate-400 hover:underline disabled:opacity-50">
+              換一題，提示重新開始
+            </button>
+          )}
+        </div>
+      )}
+      {attachments.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {attachments.map((image, index) => (
+            <div key={index} className="relative">
+              <img src={imageDataUrl(image)} alt={`待傳送的圖片 ${index + 1}`} className="h-20 w-20 rounded-lg object-cover shadow" />
+              <button
+                type="button"
+                onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                className="absolute -top-2 -right-2 p-1 rounded-full bg-slate-700 text-white hover:bg-red-500 transition-colors"
+                aria-label={`移除圖片 ${index + 1}`}
+              >
+                <CloseIcon />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {attachError && <p className="mt-2 text-sm text-red-500">{attachError}</p>}
+      <form onSubmit={handleSubmit} className="mt-3 flex items-center gap-2">
+        <label
+          className={`p-3 rounded-full bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600 transition-colors ${isLoading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+          title="附加圖片（也可以直接貼上或拖曳進來）"
+          aria-label="附加圖片"
+        >
+          <PhotoIcon />
+          <input type="file" accept="image/*" multiple onChange={handleFileChange} disabled={isLoading} className="hidden" />
+        </label>
+        <label
+          className={`p-3 rounded-full bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600 transition-colors ${isLoading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+          title="拍照上傳"
+          aria-label="拍照上傳"
+        >
+          <CameraIcon />
+          <input type="file" accept="image/*" capture="environment" onChange={handleFileChange} disabled={isLoading} className="hidden" />
+        </label>
+        <div className="relative flex-1">
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder="請告訴公主殿下您的物理煩惱..."
+            onPaste={handlePaste}
+            placeholder={currentMode.placeholder}
             className="w-full p-4 pr-14 bg-slate-100 dark:bg-slate-700 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 shadow-inner"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="absolute right-2 top-1/2 -translate-y-1/2 p-3 rounded-full bg-blue-600 text-white disabled:bg-slate-400 disabled:cursor-not-allowed hover:bg-blue-700 transition-all duration-300 transform hover:scale-110"
-          >
-            <SendIcon />
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-3 rounded-full bg-red-500 text-white hover:bg-red-600 transition-all duration-300 transform hover:scale-110"
+              aria-label="停止回覆"
+            >
+              <StopIcon />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim() && attachments.length === 0}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-3 rounded-full bg-blue-600 text-white disabled:bg-slate-400 disabled:cursor-not-allowed hover:bg-blue-700 transition-all duration-300 transform hover:scale-110"
+            >
+              <SendIcon />
+            </button>
+          )}
         </div>
       </form>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,88 @@
+import React from 'react';
+import { CURRICULUM, type CurriculumTopic, getCurriculumTopic } from '../data/curriculum';
+
+interface TopicPickerProps {
+  value: CurriculumTopic;
+  onChange: (topic: CurriculumTopic) => void;
+  disabled?: boolean;
+}
+
+const selectClassName = 'p-3 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 min-w-0';
+
+/**
+ * A course → unit → subtopic picker over the 108 curriculum. Leaving the subtopic
+ * empty selects the whole unit. A free-text topic outside the curriculum, e.g. one
+ * suggested by a session recap, is shown as its own entry until a course is picked.
+ */
+const TopicPicker: React.FC<TopicPickerProps> = ({ value, onChange, disabled }) => {
+  const isFreeText = !value.courseId;
+  const course = CURRICULUM.find(c => c.id === value.courseId) ?? CURRICULUM[0];
+  const unit = course.units.find(u => u.id === value.unitId) ?? course.units[0];
+
+  const select = (courseId: string, unitId: string, subtopicId?: string) => {
+    const topic = getCurriculumTopic(courseId, unitId, subtopicId);
+    if (topic) onChange(topic);
+  };
+
+  const handleCourseChange = (courseId: string) => {
+    const nextCourse = CURRICULUM.find(c => c.id === courseId);
+    if (nextCourse) select(nextCourse.id, nextCourse.units[0].id);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 flex-grow min-w-[200px]">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <select
+          aria-label="課程"
+          value={isFreeText ? '' : course.id}
+          onChange={(e) => handleCourseChange(e.target.value)}
+          disabled={disabled}
+          className={isFreeText ? `${selectClassName} sm:col-span-3` : selectClassName}
+        >
+          {isFreeText && <option value="">自訂主題：{value.label}</option>}
+          {CURRICULUM.map(c => (
+            <option key={c.id} value={c.id}>{c.grade}・{c.name}</option>
+          ))}
+        </select>
+        {!isFreeText && (
+          <>
+            <select
+              aria-label="單元"
+              value={unit.id}
+              onChange={(e) => select(course.id, e.target.value)}
+              disabled={disabled}
+              className={selectClassName}
+            >
+              {course.units.map(u => (
+                <option key={u.id} value={u.id}>{u.name}</option>
+              ))}
+            </select>
+            <select
+              aria-label="子題"
+              value={value.subtopicId ?? ''}
+              onChange={(e) => select(course.id, unit.id, e.target.value || undefined)}
+              disabled={disabled}
+              className={selectClassName}
+            >
+              <option value="">整個單元</option>
+              {unit.subtopics.map(s => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+      {value.learningCodes.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.learningCodes.map(code => (
+            <span key={code} className="px-2 py-0.5 rounded-full text-xs font-mono bg-pink-100 dark:bg-purple-900/40 text-pink-700 dark:text-purple-200">
+              {code}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TopicPicker;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { type HintLevel } from '../types';
+import { HINT_LEVELS } from '../data/hintLadder';
+import { type TutorSettings as TutorSettingsValues, DEFAULT_SETTINGS, getSettings, updateSettings } from '../services/settingsStore';
+
+/**
+ * Sets how far the tutor's hint ladder goes on this device, e.g. never past a worked step.
+ * It is stored in the browser like every other setting, so it is a preference, not a lock.
+ */
+const TutorSettings: React.FC = () => {
+  const [settings, setSettings] = useState<TutorSettingsValues>(DEFAULT_SETTINGS.tutor);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSettings()
+      .then(saved => setSettings(saved.tutor))
+      .catch(e => {
+        console.error(e);
+        setError('無法讀取教學設定。');
+      });
+  }, []);
+
+  const handleChange = async (patch: Partial<TutorSettingsValues>) => {
+    try {
+      const next = await updateSettings('tutor', patch);
+      setSettings(next.tutor);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('儲存失敗，請再試一次。');
+    }
+  };
+
+  return (
+    <section className="p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+      <h3 className="text-lg font-semibold">教學設定</h3>
+      <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+        學生在蘇格拉底導師中按下「我卡住了」時，提示會一級一級加深。你可以限制最多給到哪一級。
+        這個設定只存在這台裝置的瀏覽器裡，使用的人都能修改，因此只是使用偏好，並非強制限制。
+      </p>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <label className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <span className="font-medium">提示上限</span>
+        <select
+          value={settings.maxHintLevel}
+          onChange={(e) => handleChange({ maxHintLevel: Number(e.target.value) as HintLevel })}
+          className="p-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {HINT_LEVELS.map(info => (
+            <option key={info.level} value={info.level}>第 {info.level} 級：{info.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <ol className="space-y-1 text-sm">
+        {HINT_LEVELS.map(info => (
+          <li key={info.level} className={info.level > settings.maxHintLevel ? 'text-slate-400 dark:text-slate-500 line-through' : ''}>
+            <span className="font-medium">第 {info.level} 級 {info.label}</span>：{info.description}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
+
+export default TutorSettings;
@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { type AIFeature } from '../services/aiProvider';
+import { DEFAULT_SETTINGS, updateSettings } from '../services/settingsStore';
+import { type BudgetSettings, type UsageRow, type UsageTotals, localDay, summarizeUsage, totalTokens } from '../services/usage';
+import { type UsageReport, clearUsage, loadUsageReport } from '../services/usageMeter';
+import { AI_FEATURE_LABELS } from '../data/aiFeatures';
+import { TrashIcon } from './icons';
+
+const RANGES_DAYS = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatNumber = (n: number): string => n.toLocaleString('zh-TW');
+
+const averageLatency = (totals: UsageTotals): string =>
+  totals.requests === 0 ? '—' : `${formatNumber(Math.round(totals.latencyMs / totals.requests))} 毫秒`;
+
+/** The last `days` calendar days, oldest first, as YYYY-MM-DD. */
+const recentDays = (days: number): string[] =>
+  Array.from({ length: days }, (_, i) => localDay(Date.now() - (days - 1 - i) * DAY_MS));
+
+const groupBy = <K extends string>(rows: UsageRow[], key: (row: UsageRow) => K): Map<K, UsageRow[]> => {
+  const groups = new Map<K, UsageRow[]>();
+  for (const row of rows) {
+    groups.set(key(row), [...(groups.get(key(row)) ?? []), row]);
+  }
+  return groups;
+};
+
+/** Reads an optional budget input; an empty field means no limit. */
+const parseBudget = (value: string): number | undefined => (value === '' ? undefined : Math.max(0, Math.round(Number(value))));
+
+const BudgetBar: React.FC<{ used: number; budget?: number }> = ({ used, budget }) => {
+  if (budget === undefined) return <span className="text-xs text-slate-400">未設上限</span>;
+  const ratio = budget === 0 ? 1 : Math.min(1, used / budget);
+  return (
+    <div className="w-full">
+      <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+        <div className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+      <span className="text-xs text-slate-500 dark:text-slate-400">{formatNumber(used)} / {formatNumber(budget)}</span>
+    </div>
+  );
+};
+
+/**
+ * Shows the token usage per day and per feature, and the daily budgets that stop further
+ * calls once they are used up. Through the proxy these are the proxy's totals for all its
+ * clients, with budgets set on the server; otherwise they are this device's, and the
+ * budgets are edited here.
+ */
+const UsageDashboard: React.FC = () => {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [rangeDays, setRangeDays] = useState(7);
+  const [budget, setBudget] = useState<BudgetSettings>(DEFAULT_SETTINGS.budget);
+  const [budgetForm, setBudgetForm] = useState<BudgetSettings>(DEFAULT_SETTINGS.budget);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const next = await loadUsageReport();
+      setReport(next);
+      setBudget(next.budget);
+      setBudgetForm(next.budget);
+    } catch (e) {
+      console.error(e);
+      setError('無法讀取用量紀錄。');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSaveBudget = async () => {
+    try {
+      const next = await updateSettings('budget', budgetForm);
+      setBudget(next.budget);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('無法儲存每日預算，請再試一次。');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('確定要清除所有用量紀錄嗎？今天的預算也會重新計算。')) return;
+    try {
+      await clearUsage();
+      setReport(current => current && { ...current, rows: [] });
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('無法清除用量紀錄，請再試一次。');
+    }
+  };
+
+  const onProxy = report?.source === 'proxy';
+  const rows = report?.rows ?? [];
+  const todayDay = report?.today ?? localDay();
+  const features = Object.keys(AI_FEATURE_LABELS) as AIFeature[];
+  const days = recentDays(rangeDays);
+  const inRange = rows.filter(row => row.day >= days[0]);
+  const byDay = groupBy(inRange, row => row.day);
+  const byFeature = groupBy(inRange, row => row.feature);
+  const today = summarizeUsage(byDay.get(todayDay) ?? []);
+  const todayByFeature = groupBy(byDay.get(todayDay) ?? [], row => row.feature);
+  const maxDayTokens = Math.max(1, ...days.map(day => totalTokens(summarizeUsage(byDay.get(day) ?? []))));
+  const budgetDirty = JSON.stringify(budgetForm) !== JSON.stringify(budget);
+
+  return (
+    <div className="p-4 md:p-8 h-full overflow-y-auto">
+      <header className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">用量統計</h2>
+          <p className="text-slate-500 dark:text-slate-400">
+            {onProxy ? '代理伺服器上所有使用者的 AI 呼叫 token 用量、延遲與每日預算。' : '這台裝置上每次 AI 呼叫的 token 用量、延遲與每日預算。'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(Number(e.target.value))}
+            className="p-2 bg-slate-100 dark:bg-slate-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {RANGES_DAYS.map(d => <option key={d} value={d}>最近 {d} 天</option>)}
+          </select>
+          {!onProxy && (
+            <button
+              onClick={handleClear}
+              disabled={rows.length === 0}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 transition-colors text-sm"
+            >
+              <TrashIcon />
+              清除紀錄
+            </button>
+          )}
+        </div>
+      </header>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <section className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: '今日請求', value: formatNumber(today.requests), note: today.failures > 0 ? `失敗 ${today.failures} 次` : '' },
+          { label: '今日 token', value: formatNumber(totalTokens(today)), note: `輸入 ${formatNumber(today.promptTokens)} · 輸出 ${formatNumber(today.responseTokens)}` },
+          { label: '今日平均延遲', value: averageLatency(today), note: '' },
+          { label: '今日總預算', value: budget.dailyTokens === undefined ? '未設上限' : formatNumber(budget.dailyTokens), note: '' },
+        ].map(card => (
+          <div key={card.label} className="p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+            <p className="text-sm text-slate-500 dark:text-slate-400">{card.label}</p>
+            <p className="text-2xl font-bold">{card.value}</p>
+            {card.note && <p className="text-xs text-slate-500 dark:text-slate-400">{card.note}</p>}
+          </div>
+        ))}
+      </section>
+
+      <section className="p-4 mb-6 rounded-2xl border border-pink-100 dark:border-purple-800">
+        <h3 className="text-lg font-semibold mb-3">每日總量</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 dark:text-slate-400">
+              <th className="py-2 pr-4 font-medium">日期</th>
+              <th className="py-2 pr-4 font-medium">請求</th>
+              <th className="py-2 pr-4 font-medium">輸入 token</th>
+              <th className="py-2 pr-4 font-medium">輸出 token</th>
+              <th className="py-2 font-medium w-1/3">合計</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...days].reverse().map(day => {
+              const totals = summarizeUsage(byDay.get(day) ?? []);
+              return (
+                <tr key={day} className="border-t border-pink-100 dark:border-purple-800">
+                  <td className="py-1.5 pr-4">{day}</td>
+                  <td className="py-1.5 pr-4">{formatNumber(totals.requests)}</td>
+                  <td className="py-1.5 pr-4">{formatNumber(totals.promptTokens)}</td>
+                  <td className="py-1.5 pr-4">{formatNumber(totals.responseTokens)}</td>
+                  <td className="py-1.5">
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 rounded-full bg-blue-500" style={{ width: `${(totalTokens(totals) / maxDayTokens) * 100}%` }} />
+                      <span>{formatNumber(totalTokens(totals))}</span>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="p-4 mb-6 rounded-2xl border border-pink-100 dark:border-purple-800 overflow-x-auto">
+        <h3 className="text-lg font-semibold mb-3">各功能用量（最近 {rangeDays} 天）</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 dark:text-slate-400">
+              <th className="py-2 pr-4 font-medium">功能</th>
+              <th className="py-2 pr-4 font-medium">請求（失敗）</th>
+              <th className="py-2 pr-4 font-medium">token 合計</th>
+              <th className="py-2 pr-4 font-medium">平均延遲</th>
+              <th className="py-2 pr-4 font-medium">模型</th>
+              <th className="py-2 font-medium w-1/4">今日 / 每日預算</th>
+            </tr>
+          </thead>
+          <tbody>
+            {features.map(feature => {
+              const featureRows = byFeature.get(feature) ?? [];
+              const totals = summarizeUsage(featureRows);
+              const models = [...new Set(featureRows.map(row => row.model))];
+              return (
+                <tr key={feature} className="border-t border-pink-100 dark:border-purple-800">
+                  <td className="py-1.5 pr-4">{AI_FEATURE_LABELS[feature]}</td>
+                  <td className="py-1.5 pr-4">{formatNumber(totals.requests)}（{totals.failures}）</td>
+                  <td className="py-1.5 pr-4">{formatNumber(totalTokens(totals))}</td>
+                  <td className="py-1.5 pr-4">{averageLatency(totals)}</td>
+                  <td className="py-1.5 pr-4 text-xs text-slate-500 dark:text-slate-400">{models.join('、') || '—'}</td>
+                  <td className="py-1.5">
+                    <BudgetBar used={totalTokens(summarizeUsage(todayByFeature.get(feature) ?? []))} budget={budget.featureDailyTokens[feature]} />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+        <h3 className="text-lg font-semibold">每日預算</h3>
+        <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+          以 token 計算，每天午夜重新計算。用完後該功能會暫停呼叫 AI，並提示明天再試。{onProxy ? '未設定表示不限制。' : '留空表示不限制。'}
+          {onProxy
+            ? '這些預算由代理伺服器的環境變數 AI_DAILY_TOKEN_BUDGET 與 AI_FEATURE_TOKEN_BUDGETS 設定，所有使用者共同計算，無法在這裡修改。'
+            : '目前直接從這台裝置呼叫 AI，預算只記錄在這台裝置的瀏覽器裡，使用者可以自行修改或清除。'}
+        </p>
+        <div className="mb-4">
+          <label className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="w-32 font-medium">全部功能合計</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={budgetForm.dailyTokens ?? ''}
+              onChange={(e) => setBudgetForm({ ...budgetForm, dailyTokens: parseBudget(e.target.value) })}
+              placeholder="不限制"
+              disabled={onProxy}
+              className="w-40 p-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="flex-1 min-w-[10rem]"><BudgetBar used={totalTokens(today)} budget={budget.dailyTokens} /></span>
+          </label>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          {features.map(feature => (
+            <label key={feature} className="flex items-center gap-3 text-sm">
+              <span className="w-32">{AI_FEATURE_LABELS[feature]}</span>
+              <input
+                type="number"
+                min={0}
+                step={1000}
+                value={budgetForm.featureDailyTokens[feature] ?? ''}
+                onChange={(e) => setBudgetForm({ ...budgetForm, featureDailyTokens: { ...budgetForm.featureDailyTokens, [feature]: parseBudget(e.target.value) } })}
+                placeholder="不限制"
+                disabled={onProxy}
+                className="w-40 p-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+        {!onProxy && (
+          <button
+            onClick={handleSaveBudget}
+            disabled={!budgetDirty}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors text-sm"
+          >
+            儲存預算
+          </button>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default UsageDashboard;
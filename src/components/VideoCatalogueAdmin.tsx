@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { type CatalogueVideo } from '../types';
+import { DEFAULT_CURRICULUM_TOPIC, getCurriculumNodeName, type CurriculumTopic } from '../data/curriculum';
+import { deleteVideo, exportVideos, formatTimestamp, importVideos, listVideos, saveVideo, videoUrlWithTimestamp } from '../services/videoCatalogue';
+import { formatIssues } from '../services/validation';
+import TopicPicker from './TopicPicker';
+import { DownloadIcon, TrashIcon } from './icons';
+
+const IMPORT_EXAMPLE = `[
+  {
+    "title": "動量守恆定律",
+    "url": "https://www.youtube.com/watch?v=...",
+    "startSeconds": 95,
+    "channel": "均一教育平台",
+    "curriculumIds": ["momentum-conservation"]
+  }
+]`;
+
+/** Parses "m:ss" or plain seconds; returns undefined for an empty field and NaN for garbage. */
+const parseTimestamp = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  const match = /^(\d+):(\d{1,2})$/.exec(trimmed);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : Number(trimmed);
+};
+
+const inputClassName = 'p-3 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const VideoCatalogueAdmin: React.FC = () => {
+  const [videos, setVideos] = useState<CatalogueVideo[]>([]);
+  const [title, setTitle] = useState('');
+  const [url, setUrl] = useState('');
+  const [start, setStart] = useState('');
+  const [channel, setChannel] = useState('');
+  const [topic, setTopic] = useState<CurriculumTopic>(DEFAULT_CURRICULUM_TOPIC);
+  const [importText, setImportText] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setVideos(await listVideos());
+    } catch (e) {
+      console.error(e);
+      setError('無法讀取影片目錄。');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+    const startSeconds = parseTimestamp(start);
+    if (startSeconds !== undefined && (!Number.isInteger(startSeconds) || startSeconds < 0)) {
+      setError('開始時間格式不正確，請輸入秒數或「分:秒」。');
+      return;
+    }
+    if (!title.trim()) {
+      setError('請輸入影片標題。');
+      return;
+    }
+    if (!/^https?:\/\//.test(url.trim())) {
+      setError('請輸入有效的影片網址。');
+      return;
+    }
+    try {
+      await saveVideo({
+        title: title.trim(),
+        url: url.trim(),
+        startSeconds,
+        channel: channel.trim() || undefined,
+        curriculumIds: [topic.subtopicId ?? topic.unitId!],
+      });
+    } catch (e) {
+      console.error(e);
+      setError('無法儲存影片，請再試一次。');
+      return;
+    }
+    setTitle('');
+    setUrl('');
+    setStart('');
+    setMessage('已新增影片。');
+    await refresh();
+  };
+
+  const handleImport = async () => {
+    setMessage(null);
+    setError(null);
+    let result: Awaited<ReturnType<typeof importVideos>>;
+    try {
+      result = await importVideos(importText);
+    } catch (e) {
+      console.error(e);
+      setError('無法儲存匯入的影片，目錄沒有變更。');
+      return;
+    }
+    const { imported, issues } = result;
+    if (issues.length > 0) {
+      setError(`匯入失敗，請修正以下錯誤：\n${formatIssues(issues)}`);
+      return;
+    }
+    setImportText('');
+    setMessage(`已匯入 ${imported} 部影片。`);
+    await refresh();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setImportText(await file.text());
+    }
+    e.target.value = '';
+  };
+
+  const handleExport = async () => {
+    const blob = new Blob([await exportVideos()], { type: 'application/json' });
+    const objectUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = objectUrl;
+    a.download = 'video-catalogue.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  const handleDelete = async (video: CatalogueVideo) => {
+    if (!window.confirm(`確定要從目錄中刪除「${video.title}」嗎？`)) return;
+    try {
+      await deleteVideo(video.id);
+    } catch (e) {
+      console.error(e);
+      setError('無法刪除影片，請再試一次。');
+      return;
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="p-4 md:p-8 h-full overflow-y-auto">
+      <header className="mb-6 flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">影片目錄管理</h2>
+          <p className="text-slate-500 dark:text-slate-400">維護各課綱主題的教學影片。練習題會優先使用這裡的影片，而不是 AI 產生的連結。</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={videos.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+        >
+          <DownloadIcon />
+          <span className="hidden sm:inline text-sm font-medium">匯出 JSON</span>
+        </button>
+      </header>
+
+      {message && <div className="mb-4 p-3 rounded-lg bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-sm">{message}</div>}
+      {error && <pre className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300 text-sm whitespace-pre-wrap font-sans">{error}</pre>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        <form onSubmit={handleAdd} className="flex flex-col gap-3 p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+          <h3 className="text-lg font-semibold">新增影片</h3>
+          <TopicPicker value={topic} onChange={setTopic} />
+          <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="影片標題" className={inputClassName} required />
+          <input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://www.youtube.com/watch?v=..." className={inputClassName} required />
+          <div className="grid grid-cols-2 gap-2">
+            <input value={start} onChange={(e) => setStart(e.target.value)} placeholder="開始時間（例如 1:35）" className={inputClassName} />
+            <input value={channel} onChange={(e) => setChannel(e.target.value)} placeholder="頻道（選填）" className={inputClassName} />
+          </div>
+          <button type="submit" className="px-6 py-3 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors">
+            加入目錄
+          </button>
+        </form>
+
+        <div className="flex flex-col gap-3 p-4 rounded-2xl border border-pink-100 dark:border-purple-800">
+          <h3 className="text-lg font-semibold">從 JSON 匯入</h3>
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder={IMPORT_EXAMPLE}
+            className={`${inputClassName} h-48 font-mono text-sm resize-none`}
+          />
+          <div className="flex gap-2">
+            <input type="file" accept="application/json,.json" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-pink-200 dark:hover:bg-slate-600 transition-colors text-sm"
+            >
+              選擇檔案
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!importText.trim()}
+              className="flex-1 px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors"
+            >
+              匯入
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <h3 className="text-lg font-semibold mb-2">目前目錄（{videos.length} 部）</h3>
+      {videos.length === 0 ? (
+        <p className="text-slate-500 dark:text-slate-400">目錄尚無影片。練習題會暫時使用 AI 產生的連結，並標示為未確認。</p>
+      ) : (
+        <ul className="space-y-2">
+          {videos.map(video => (
+            <li key={video.id} className="flex items-start gap-3 p-3 rounded-lg bg-white dark:bg-slate-800 border border-pink-100 dark:border-purple-800">
+              <div className="flex-1 min-w-0">
+                <a href={videoUrlWithTimestamp(video)} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+                  {video.title}
+                </a>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {video.curriculumIds.map(id => getCurriculumNodeName(id) ?? id).join('、')}
+                  {video.startSeconds ? ` · 從 ${formatTimestamp(video.startSeconds)} 開始` : ''}
+                  {video.channel ? ` · ${video.channel}` : ''}
+                </p>
+                <p className="text-xs text-slate-400 break-all">{video.url}</p>
+              </div>
+              <button onClick={() => handleDelete(video)} className="p-2 rounded hover:bg-red-100 dark:hover:bg-red-900/30" aria-label="刪除影片">
+                <TrashIcon />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VideoCatalogueAdmin;
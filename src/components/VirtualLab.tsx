@@ -1,32 +1,56 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { generateSimulationCode } from '../services/geminiService';
-import { LabIcon, DownloadIcon } from './icons';
+import { LabIcon, DownloadIcon, StopIcon } from './icons';
+import ErrorNotice from './ErrorNotice';
+import CachedNotice from './CachedNotice';
 
 const VirtualLab: React.FC = () => {
   const [prompt, setPrompt] = useState<string>('一個有摩擦力的斜面上的滑塊');
   const [code, setCode] = useState<string>('');
+  // The prompt revision that produced the current code, e.g. "simulation@1".
+  const [promptVersion, setPromptVersion] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | undefined>();
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (regenerate = false) => {
     if (!prompt.trim()) return;
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
     setCode('');
+    setPromptVersion(null);
+    setCachedAt(undefined);
     try {
-      const generatedCode = await generateSimulationCode(prompt);
-      setCode(generatedCode);
+      const result = await generateSimulationCode(prompt, controller.signal, { regenerate });
+      setCode(result.value.text);
+      setPromptVersion(result.value.promptVersion);
+      setCachedAt(result.cachedAt);
     } catch (e) {
-      setError((e as Error).message || '無法生成模擬，請稍後再試。');
+      if (controller.signal.aborted) return;
+      setError(e as Error);
       console.error(e);
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  };
+
   const handleDownload = () => {
     if (!code) return;
-    const blob = new Blob([code], { type: 'text/html' });
+    const source = promptVersion ? `<!-- Generated with prompt ${promptVersion} -->\n${code}` : code;
+    const blob = new Blob([source], { type: 'text/html' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -37,9 +61,10 @@ const VirtualLab: React.FC = () => {
     URL.revokeObjectURL(url);
   };
   
-  // Auto-generate on first load
+  // Auto-generate on first load, and drop any unfinished generation when the lab is closed.
   useEffect(() => {
     handleGenerate();
+    return () => abortControllerRef.current?.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -58,20 +83,31 @@ const VirtualLab: React.FC = () => {
           placeholder="描述你想模擬的物理場景..."
           className="flex-grow p-3 bg-slate-100 dark:bg-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
-        <button
-          onClick={handleGenerate}
-          disabled={isLoading || !prompt.trim()}
-          className="flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors"
-        >
-          <LabIcon />
-          {isLoading ? '生成中...' : '生成實驗'}
-        </button>
+        {isLoading ? (
+          <button
+            onClick={handleCancel}
+            className="flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-red-500 text-white font-semibold hover:bg-red-600 transition-colors"
+          >
+            <StopIcon />
+            取消生成
+          </button>
+        ) : (
+          <button
+            onClick={() => handleGenerate()}
+            disabled={!prompt.trim()}
+            className="flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-blue-600 text-white font-semibold disabled:bg-slate-400 hover:bg-blue-700 transition-colors"
+          >
+            <LabIcon />
+            生成實驗
+          </button>
+        )}
+        {cachedAt && !isLoading && <CachedNotice cachedAt={cachedAt} onRegenerate={() => handleGenerate(true)} className="w-full" />}
       </div>
 
       <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-px bg-slate-200 dark:bg-slate-700 overflow-hidden">
         <div className="bg-white dark:bg-slate-800 flex flex-col overflow-hidden">
             <div className="p-3 font-semibold text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-900/50 flex justify-between items-center">
-                <h3>程式碼 (HTML/JS)</h3>
+                <h3>程式碼 (HTML/JS){promptVersion && <span className="ml-2 text-xs font-normal text-slate-400">提示版本 {promptVersion}</span>}</h3>
                 <button 
                     onClick={handleDownload} 
                     disabled={!code || isLoading}
@@ -90,7 +126,7 @@ const VirtualLab: React.FC = () => {
         </div>
         <div className="bg-white dark:bg-slate-800 flex flex-col overflow-hidden">
             <h3 className="p-3 font-semibold text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-900/50">模擬預覽</h3>
-            {error && <div className="p-4 text-red-500">{error}</div>}
+            {error && <ErrorNotice error={error} onRetry={() => handleGenerate()} className="m-4" />}
             <iframe
             srcDoc={code}
             title="Physics Simulation"
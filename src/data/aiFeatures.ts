@@ -0,0 +1,14 @@
+import { type AIFeature } from '../services/aiProvider';
+
+/** How each AI feature is named in settings and usage reports. */
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  tutor: '蘇格拉底家教',
+  memory: '對話摘要',
+  recap: '學習總結',
+  misconception: '迷思概念標記',
+  summary: '核心總整理',
+  problems: '練習題',
+  verification: '答案驗證',
+  diagram: '受力圖分析',
+  simulation: '虛擬實驗',
+};
@@ -0,0 +1,334 @@
+// The 108 課綱 (2019 curriculum guidelines) senior high school physics syllabus:
+// the compulsory course and the five advanced elective modules, broken down into
+// units and subtopics with their 學習內容 codes.
+// Bump CURRICULUM_VERSION whenever ids or structure change, since selections are
+// stored alongside generated content.
+
+export const CURRICULUM_VERSION = '108-v1';
+
+export type Grade = '高一' | '高二' | '高三';
+
+export interface CurriculumSubtopic {
+  id: string;
+  name: string;
+  learningCodes: string[];
+}
+
+export interface CurriculumUnit {
+  id: string;
+  name: string;
+  subtopics: CurriculumSubtopic[];
+}
+
+export interface CurriculumCourse {
+  id: string;
+  grade: Grade;
+  name: string;
+  units: CurriculumUnit[];
+}
+
+/** A selected curriculum node, flattened into the context prompts need. */
+export interface CurriculumTopic {
+  /** The most specific name, e.g. the subtopic name or a free-text topic. */
+  label: string;
+  curriculumVersion: string;
+  grade?: Grade;
+  courseId?: string;
+  courseName?: string;
+  unitId?: string;
+  unitName?: string;
+  subtopicId?: string;
+  subtopicName?: string;
+  learningCodes: string[];
+}
+
+export const CURRICULUM: CurriculumCourse[] = [
+  {
+    id: 'required',
+    grade: '高一',
+    name: '部定必修物理',
+    units: [
+      {
+        id: 'required-intro',
+        name: '物理學簡介',
+        subtopics: [
+          { id: 'required-intro-history', name: '物理學的發展', learningCodes: ['PKa-Vc-1'] },
+          { id: 'required-intro-units', name: '物理量與單位', learningCodes: ['PKa-Vc-2'] },
+        ],
+      },
+      {
+        id: 'required-interactions',
+        name: '物質的組成與交互作用',
+        subtopics: [
+          { id: 'required-interactions-structure', name: '物質的組成', learningCodes: ['PEb-Vc-1'] },
+          { id: 'required-interactions-forces', name: '四種基本交互作用', learningCodes: ['PEb-Vc-2', 'PEb-Vc-3'] },
+        ],
+      },
+      {
+        id: 'required-motion',
+        name: '物體的運動',
+        subtopics: [
+          { id: 'required-motion-kinematics', name: '運動的描述', learningCodes: ['PEa-Vc-1'] },
+          { id: 'required-motion-newton', name: '牛頓三大運動定律', learningCodes: ['PEa-Vc-2'] },
+          { id: 'required-motion-gravitation', name: '克卜勒定律與萬有引力', learningCodes: ['PEa-Vc-3', 'PEa-Vc-4'] },
+        ],
+      },
+      {
+        id: 'required-energy',
+        name: '能量',
+        subtopics: [
+          { id: 'required-energy-forms', name: '能量的形式與轉換', learningCodes: ['PBa-Vc-1', 'PBa-Vc-2'] },
+          { id: 'required-energy-mass', name: '質能互換', learningCodes: ['PBa-Vc-3'] },
+        ],
+      },
+      {
+        id: 'required-em',
+        name: '電與磁的統一',
+        subtopics: [
+          { id: 'required-em-current-magnetism', name: '電流的磁效應', learningCodes: ['PKc-Vc-1'] },
+          { id: 'required-em-induction', name: '電磁感應', learningCodes: ['PKc-Vc-2'] },
+          { id: 'required-em-waves', name: '電磁波', learningCodes: ['PKc-Vc-3'] },
+        ],
+      },
+      {
+        id: 'required-quantum',
+        name: '量子現象',
+        subtopics: [
+          { id: 'required-quantum-photoelectric', name: '光電效應', learningCodes: ['PKb-Vc-1'] },
+          { id: 'required-quantum-duality', name: '波粒二象性', learningCodes: ['PKb-Vc-2'] },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'mechanics-1',
+    grade: '高二',
+    name: '選修物理Ⅰ：力學一',
+    units: [
+      {
+        id: 'linear-motion',
+        name: '直線運動',
+        subtopics: [
+          { id: 'linear-motion-velocity', name: '位移、速度與加速度', learningCodes: ['PEa-Va-1'] },
+          { id: 'linear-motion-uniform-acceleration', name: '等加速度運動', learningCodes: ['PEa-Va-2'] },
+          { id: 'linear-motion-free-fall', name: '自由落體', learningCodes: ['PEa-Va-3'] },
+        ],
+      },
+      {
+        id: 'planar-motion',
+        name: '平面運動',
+        subtopics: [
+          { id: 'planar-motion-projectile', name: '拋體運動', learningCodes: ['PEa-Va-4'] },
+          { id: 'planar-motion-relative', name: '相對運動', learningCodes: ['PEa-Va-5'] },
+        ],
+      },
+      {
+        id: 'newton-laws',
+        name: '牛頓運動定律',
+        subtopics: [
+          { id: 'newton-laws-second', name: '牛頓第二定律', learningCodes: ['PEa-Va-6'] },
+          { id: 'newton-laws-friction', name: '摩擦力', learningCodes: ['PEa-Va-7'] },
+          { id: 'newton-laws-statics', name: '靜力平衡', learningCodes: ['PEa-Va-8'] },
+        ],
+      },
+      {
+        id: 'circular-gravitation',
+        name: '圓周運動與萬有引力',
+        subtopics: [
+          { id: 'circular-gravitation-uniform', name: '等速圓周運動', learningCodes: ['PEa-Va-9'] },
+          { id: 'circular-gravitation-orbits', name: '行星與衛星運動', learningCodes: ['PEa-Va-10'] },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'mechanics-2-thermal',
+    grade: '高二',
+    name: '選修物理Ⅱ：力學二與熱學',
+    units: [
+      {
+        id: 'momentum',
+        name: '動量與碰撞',
+        subtopics: [
+          { id: 'momentum-impulse', name: '動量與衝量', learningCodes: ['PEa-Vb-1'] },
+          { id: 'momentum-conservation', name: '動量守恆', learningCodes: ['PEa-Vb-2'] },
+          { id: 'momentum-collisions', name: '彈性與非彈性碰撞', learningCodes: ['PEa-Vb-3'] },
+        ],
+      },
+      {
+        id: 'work-energy',
+        name: '功與能量',
+        subtopics: [
+          { id: 'work-energy-theorem', name: '功與動能定理', learningCodes: ['PBa-Vb-1'] },
+          { id: 'work-energy-conservation', name: '力學能守恆', learningCodes: ['PBa-Vb-2'] },
+        ],
+      },
+      {
+        id: 'rotation',
+        name: '轉動',
+        subtopics: [
+          { id: 'rotation-torque', name: '力矩與轉動平衡', learningCodes: ['PEa-Vb-4'] },
+          { id: 'rotation-angular-momentum', name: '角動量守恆', learningCodes: ['PEa-Vb-5'] },
+        ],
+      },
+      {
+        id: 'thermal',
+        name: '熱學',
+        subtopics: [
+          { id: 'thermal-heat-temperature', name: '溫度與熱量', learningCodes: ['PBb-Vb-1'] },
+          { id: 'thermal-ideal-gas', name: '理想氣體與氣體動力論', learningCodes: ['PBb-Vb-2', 'PBb-Vb-3'] },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'waves-optics-sound',
+    grade: '高三',
+    name: '選修物理Ⅲ：波動、光及聲音',
+    units: [
+      {
+        id: 'waves',
+        name: '波動',
+        subtopics: [
+          { id: 'waves-properties', name: '波的性質與傳播', learningCodes: ['PKa-Va-1'] },
+          { id: 'waves-superposition', name: '疊加、干涉與駐波', learningCodes: ['PKa-Va-2'] },
+        ],
+      },
+      {
+        id: 'sound',
+        name: '聲波',
+        subtopics: [
+          { id: 'sound-resonance', name: '共鳴與樂音', learningCodes: ['PKa-Va-3'] },
+          { id: 'sound-doppler', name: '都卜勒效應', learningCodes: ['PKa-Va-4'] },
+        ],
+      },
+      {
+        id: 'optics',
+        name: '光學',
+        subtopics: [
+          { id: 'optics-geometric', name: '反射、折射與成像', learningCodes: ['PKa-Va-5'] },
+          { id: 'optics-physical', name: '光的干涉與繞射', learningCodes: ['PKa-Va-6'] },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'electromagnetism-1',
+    grade: '高三',
+    name: '選修物理Ⅳ：電磁現象一',
+    units: [
+      {
+        id: 'electrostatics',
+        name: '靜電學',
+        subtopics: [
+          { id: 'electrostatics-coulomb', name: '庫倫定律', learningCodes: ['PKc-Va-1'] },
+          { id: 'electrostatics-field-potential', name: '電場與電位', learningCodes: ['PKc-Va-2', 'PKc-Va-3'] },
+        ],
+      },
+      {
+        id: 'circuits',
+        name: '電流與電路',
+        subtopics: [
+          { id: 'circuits-ohm', name: '歐姆定律與電阻', learningCodes: ['PKc-Va-4'] },
+          { id: 'circuits-kirchhoff', name: '克希荷夫定律', learningCodes: ['PKc-Va-5'] },
+        ],
+      },
+      {
+        id: 'magnetism',
+        name: '電流的磁效應',
+        subtopics: [
+          { id: 'magnetism-field', name: '載流導線的磁場', learningCodes: ['PKc-Va-6'] },
+          { id: 'magnetism-lorentz', name: '磁力與帶電粒子運動', learningCodes: ['PKc-Va-7'] },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'electromagnetism-2-quantum',
+    grade: '高三',
+    name: '選修物理Ⅴ：電磁現象二與量子現象',
+    units: [
+      {
+        id: 'induction',
+        name: '電磁感應',
+        subtopics: [
+          { id: 'induction-faraday', name: '法拉第定律與冷次定律', learningCodes: ['PKc-Vb-1'] },
+          { id: 'induction-ac', name: '交流電與變壓器', learningCodes: ['PKc-Vb-2'] },
+        ],
+      },
+      {
+        id: 'modern-physics',
+        name: '量子現象',
+        subtopics: [
+          { id: 'modern-physics-photoelectric', name: '光電效應與光子', learningCodes: ['PKb-Vb-1'] },
+          { id: 'modern-physics-atom', name: '原子結構與能階', learningCodes: ['PKb-Vb-2'] },
+        ],
+      },
+    ],
+  },
+];
+
+/**
+ * Flattens a course, unit and optional subtopic selection into a topic context.
+ * Returns null when the ids do not match the current curriculum.
+ */
+export const getCurriculumTopic = (courseId: string, unitId: string, subtopicId?: string): CurriculumTopic | null => {
+  const course = CURRICULUM.find(c => c.id === courseId);
+  const unit = course?.units.find(u => u.id === unitId);
+  if (!course || !unit) return null;
+  const subtopic = subtopicId ? unit.subtopics.find(s => s.id === subtopicId) : undefined;
+  return {
+    label: subtopic?.name ?? unit.name,
+    curriculumVersion: CURRICULUM_VERSION,
+    grade: course.grade,
+    courseId: course.id,
+    courseName: course.name,
+    unitId: unit.id,
+    unitName: unit.name,
+    subtopicId: subtopic?.id,
+    subtopicName: subtopic?.name,
+    learningCodes: subtopic ? subtopic.learningCodes : unit.subtopics.flatMap(s => s.learningCodes),
+  };
+};
+
+/**
+ * Resolves free text, such as a suggested topic, to the curriculum node with the same name.
+ * Falls back to a topic that carries only the text when nothing matches.
+ */
+export const findCurriculumTopic = (text: string): CurriculumTopic => {
+  const name = text.trim();
+  for (const course of CURRICULUM) {
+    for (const unit of course.units) {
+      const subtopic = unit.subtopics.find(s => s.name === name);
+      if (subtopic) return getCurriculumTopic(course.id, unit.id, subtopic.id)!;
+      if (unit.name === name) return getCurriculumTopic(course.id, unit.id)!;
+    }
+  }
+  return { label: name, curriculumVersion: CURRICULUM_VERSION, learningCodes: [] };
+};
+
+/**
+ * Describes a topic for prompts, e.g. "動量守恆（108 課綱 選修物理Ⅱ：力學二與熱學 › 動量與碰撞 › 動量守恆；學習內容 PEa-Vb-2）".
+ */
+export const describeCurriculumTopic = (topic: CurriculumTopic): string => {
+  if (!topic.courseName) return topic.label;
+  const path = [topic.courseName, topic.unitName, topic.subtopicName].filter(Boolean).join(' › ');
+  const codes = topic.learningCodes.length > 0 ? `；學習內容 ${topic.learningCodes.join('、')}` : '';
+  return `${topic.label}（108 課綱 ${topic.grade} ${path}${codes}）`;
+};
+
+export const DEFAULT_CURRICULUM_TOPIC = getCurriculumTopic('mechanics-2-thermal', 'momentum', 'momentum-conservation')!;
+
+/**
+ * Returns the display name of a unit or subtopic id, e.g. for listing what a catalogue video covers.
+ */
+export const getCurriculumNodeName = (id: string): string | undefined => {
+  for (const course of CURRICULUM) {
+    for (const unit of course.units) {
+      if (unit.id === id) return unit.name;
+      const subtopic = unit.subtopics.find(s => s.id === id);
+      if (subtopic) return `${unit.name} › ${subtopic.name}`;
+    }
+  }
+  return undefined;
+};
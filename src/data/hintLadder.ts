@@ -0,0 +1,20 @@
+import { type HintLevel } from '../types';
+
+export interface HintLevelInfo {
+  level: HintLevel;
+  label: string;
+  /** What the student gets at this rung, shown in 教學設定 when the cap is chosen. */
+  description: string;
+}
+
+// Each press of 我卡住了 climbs one rung, up to the cap chosen in 教學設定.
+export const HINT_LEVELS: HintLevelInfo[] = [
+  { level: 1, label: '提示方向', description: '只點出該注意的觀念或物理量，仍以提問引導。' },
+  { level: 2, label: '具體提示', description: '說明適用的定律或公式與理由，由學生自己代入計算。' },
+  { level: 3, label: '示範一步', description: '完整示範下一個步驟，其餘步驟留給學生。' },
+  { level: 4, label: '完整解說', description: '逐步說明整題解法，再用一個問題確認學生理解。' },
+];
+
+export const MAX_HINT_LEVEL: HintLevel = 4;
+
+export const getHintLevel = (level: HintLevel): HintLevelInfo => HINT_LEVELS[level - 1];
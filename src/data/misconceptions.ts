@@ -0,0 +1,33 @@
+// Common high school physics misconceptions the tutor tags student turns with.
+// IDs are stable: they are stored on saved chat messages, so never rename one.
+
+export interface Misconception {
+  id: string;
+  label: string;
+  description: string;
+  curriculumUnit: string;
+}
+
+export const NO_MISCONCEPTION_ID = 'none';
+
+export const MISCONCEPTIONS: Misconception[] = [
+  { id: 'force-needed-for-motion', label: '運動需要力維持', description: '認為物體要保持運動就必須持續受力。', curriculumUnit: '牛頓運動定律' },
+  { id: 'velocity-acceleration-confusion', label: '速度與加速度混淆', description: '認為速度為零時加速度也為零，或速度大加速度就大。', curriculumUnit: '直線運動' },
+  { id: 'heavier-falls-faster', label: '重者落得快', description: '忽略空氣阻力時仍認為質量大的物體下落較快。', curriculumUnit: '直線運動' },
+  { id: 'action-reaction-cancel', label: '作用力與反作用力抵消', description: '認為作用力與反作用力作用在同一物體上而互相抵消。', curriculumUnit: '牛頓運動定律' },
+  { id: 'normal-force-equals-weight', label: '正向力必等於重力', description: '在斜面或有其他垂直分力時仍認為正向力等於 mg。', curriculumUnit: '牛頓運動定律' },
+  { id: 'friction-opposes-motion-always', label: '摩擦力必與運動方向相反', description: '忽略靜摩擦力可以沿運動方向提供加速度的情形。', curriculumUnit: '牛頓運動定律' },
+  { id: 'centrifugal-force-real', label: '離心力是真實的力', description: '在慣性座標系中引入離心力來解釋圓周運動。', curriculumUnit: '圓周運動與萬有引力' },
+  { id: 'kinetic-energy-always-conserved', label: '碰撞動能必守恆', description: '認為所有碰撞中動能都守恆。', curriculumUnit: '動量與碰撞' },
+  { id: 'momentum-scalar', label: '動量是純量', description: '計算動量時忽略方向，直接相加大小。', curriculumUnit: '動量與碰撞' },
+  { id: 'energy-used-up', label: '能量會被用掉', description: '認為能量會消失，而不是轉換成其他形式。', curriculumUnit: '功與能量' },
+  { id: 'current-consumed', label: '電流被用掉', description: '認為電流經過燈泡後會變小。', curriculumUnit: '電流與電路' },
+  { id: 'heat-temperature-confusion', label: '熱與溫度混淆', description: '把熱量與溫度視為同一個物理量。', curriculumUnit: '熱學' },
+  { id: 'wave-carries-matter', label: '波傳遞物質', description: '認為波動會把介質一起帶著前進。', curriculumUnit: '波動' },
+];
+
+/**
+ * Looks up a misconception by id. Returns undefined for unknown ids and for "none".
+ */
+export const getMisconception = (id: string): Misconception | undefined =>
+  MISCONCEPTIONS.find(m => m.id === id);
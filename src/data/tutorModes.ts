@@ -0,0 +1,59 @@
+import { type TutorMode } from '../types';
+
+export interface TutorModeInfo {
+  id: TutorMode;
+  label: string;
+  /** Shown in the mode picker. */
+  description: string;
+  /** The tutor's first message in a new session, or after switching to the mode. */
+  opening: string;
+  placeholder: string;
+  /** A one-line tip shown above the input. */
+  tip: string;
+  /** Whether 我卡住了 is offered; modes that already explain have no use for it. */
+  hintLadder: boolean;
+}
+
+export const TUTOR_MODES: TutorModeInfo[] = [
+  {
+    id: 'socratic',
+    label: '蘇格拉底提問',
+    description: '只用提問引導，讓你自己找出答案。',
+    opening: '你好！我是蘇格拉底導師。有什麼物理問題我可以引導你思考的嗎？',
+    placeholder: '請告訴公主殿下您的物理煩惱，或附上題目的照片...',
+    tip: '導師不會直接給答案；想不出來時，可以按「我卡住了」。',
+    hintLadder: true,
+  },
+  {
+    id: 'explain',
+    label: '直接講解',
+    description: '一步一步講解觀念與解法，適合考前複習或需要多一點引導時。',
+    opening: '好的，我們改用講解模式。告訴我你想弄懂的觀念或題目，我會一步一步說明，並確認你每一步都跟上了。',
+    placeholder: '想弄懂哪個觀念或哪一題？',
+    tip: '每講完一步，導師會問一個小問題確認你懂了；不懂就直接說「再講一次」。',
+    hintLadder: false,
+  },
+  {
+    id: 'quiz',
+    label: '考考我',
+    description: '導師一次出一題，你作答後批改並調整難度。',
+    opening: '來小考一下！先告訴我想練習哪個單元，例如「牛頓運動定律」，我會一次出一題。',
+    placeholder: '輸入想練習的單元，或你的答案…',
+    tip: '答錯也沒關係，導師會指出背後的迷思，再出一題簡單一點的。',
+    hintLadder: true,
+  },
+  {
+    id: 'exam-coach',
+    label: '考前衝刺',
+    description: '聚焦考點、常見陷阱與解題速度，準備段考與學測。',
+    opening: '考前衝刺模式啟動！告訴我考試範圍，或你最沒把握的題型，我們來抓重點和常見陷阱。',
+    placeholder: '考試範圍，或最沒把握的題型…',
+    tip: '每個重點最後都會有一句口訣或提醒，適合考前快速複習。',
+    hintLadder: false,
+  },
+];
+
+export const DEFAULT_TUTOR_MODE: TutorMode = 'socratic';
+
+export const getTutorMode = (mode: TutorMode = DEFAULT_TUTOR_MODE): TutorModeInfo =>
+  TUTOR_MODES.find(info => info.id === mode) ?? TUTOR_MODES[0];
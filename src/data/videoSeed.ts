@@ -0,0 +1,17 @@
+import { type CatalogueVideo } from '../types';
+import { CURRICULUM } from './curriculum';
+
+// The videos a new catalogue starts with, so problems have a vetted source before the
+// teacher curates their own: one 均一教育平台 search per subtopic, which cannot go stale
+// the way a single video link can. Bump SEED_VERSION when the list changes; seeds the
+// teacher deleted are only added back by a new version.
+
+export const SEED_VERSION = 1;
+
+export const SEED_VIDEOS: CatalogueVideo[] = CURRICULUM.flatMap(course => course.units.flatMap(unit => unit.subtopics.map(subtopic => ({
+  id: `seed-${subtopic.id}`,
+  title: `${subtopic.name}（均一教育平台影片）`,
+  url: `https://www.youtube.com/results?search_query=${encodeURIComponent(`均一 高中物理 ${subtopic.name}`)}`,
+  channel: '均一教育平台',
+  curriculumIds: [subtopic.id],
+}))));
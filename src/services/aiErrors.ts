@@ -0,0 +1,183 @@
+import { type ValidationIssue } from './validation';
+
+export type AIErrorKind = 'rate-limited' | 'unavailable' | 'invalid-request' | 'auth' | 'safety-blocked' | 'parse-failure' | 'budget-exceeded' | 'fixture-miss' | 'unexpected';
+
+/**
+ * The base class of every error the AI services throw. `message` is a user-facing
+ * Traditional Chinese sentence that components can show as is; `detail` keeps the
+ * original technical message for logs.
+ */
+export abstract class AIServiceError extends Error {
+  abstract readonly kind: AIErrorKind;
+  /** Whether the same request may succeed if it is sent again later. */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, readonly detail?: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class RateLimitedError extends AIServiceError {
+  readonly kind = 'rate-limited';
+  readonly retryable = true;
+
+  /**
+   * @param retryAfterMs How long the server asked us to wait, if it said.
+   */
+  constructor(detail?: string, readonly retryAfterMs?: number) {
+    super('您的請求頻率過高，請稍後再試。', detail);
+  }
+}
+
+export class UnavailableError extends AIServiceError {
+  readonly kind = 'unavailable';
+  readonly retryable = true;
+
+  constructor(detail?: string) {
+    super('AI 伺服器目前無法連線或發生內部錯誤，請稍後再試。', detail);
+  }
+}
+
+export class InvalidRequestError extends AIServiceError {
+  readonly kind = 'invalid-request';
+
+  constructor(detail?: string) {
+    super('向 AI 伺服器發送的請求格式有誤，這可能是由於輸入內容包含不支援的字詞或檔案。', detail);
+  }
+}
+
+export class AuthError extends AIServiceError {
+  readonly kind = 'auth';
+
+  constructor(detail?: string) {
+    super('API 金鑰無效或未設置，請到「設定」頁面輸入或檢查金鑰。', detail);
+  }
+}
+
+export class SafetyBlockedError extends AIServiceError {
+  readonly kind = 'safety-blocked';
+
+  constructor(detail?: string) {
+    super('這個請求被 AI 的安全機制擋下了，請換個說法再試一次。', detail);
+  }
+}
+
+export class ParseFailureError extends AIServiceError {
+  readonly kind = 'parse-failure';
+
+  /**
+   * @param issues The validation issues that remained after every repair attempt.
+   */
+  constructor(detail?: string, readonly issues: ValidationIssue[] = []) {
+    super('AI 返回的資料格式不正確，無法解析。', detail);
+  }
+}
+
+/** A daily usage budget, set on the proxy or on this device, is used up, so the request was never sent. */
+export class BudgetExceededError extends AIServiceError {
+  readonly kind = 'budget-exceeded';
+
+  constructor(detail?: string) {
+    super('今天的 AI 使用額度已經用完了，明天會自動恢復。', detail);
+  }
+}
+
+/** Replay mode is on and the loaded fixture has no recorded response for the request. */
+export class FixtureMissError extends AIServiceError {
+  readonly kind = 'fixture-miss';
+
+  constructor(detail?: string) {
+    super('重播的錄製檔裡沒有這個請求的回應。', detail);
+  }
+}
+
+/** A failure we cannot classify, e.g. a bug. Sending the same request again is unlikely to help. */
+export class UnexpectedError extends AIServiceError {
+  readonly kind = 'unexpected';
+
+  constructor(detail?: string) {
+    super('發生未預期的錯誤，無法完成這個請求。', detail);
+  }
+}
+
+/** The HTTP status the proxy answers with for each kind. */
+export const HTTP_STATUS_BY_KIND: Record<AIErrorKind, number> = {
+  'rate-limited': 429,
+  'unavailable': 503,
+  'invalid-request': 400,
+  'auth': 401,
+  'safety-blocked': 422,
+  'parse-failure': 502,
+  'budget-exceeded': 429,
+  'fixture-miss': 404,
+  'unexpected': 500,
+};
+
+/**
+ * Builds the error for a kind, e.g. when the proxy reports one.
+ */
+export const createAIServiceError = (kind: AIErrorKind, detail?: string, retryAfterMs?: number): AIServiceError => {
+  switch (kind) {
+    case 'rate-limited':
+      return new RateLimitedError(detail, retryAfterMs);
+    case 'unavailable':
+      return new UnavailableError(detail);
+    case 'invalid-request':
+      return new InvalidRequestError(detail);
+    case 'auth':
+      return new AuthError(detail);
+    case 'safety-blocked':
+      return new SafetyBlockedError(detail);
+    case 'parse-failure':
+      return new ParseFailureError(detail);
+    case 'budget-exceeded':
+      return new BudgetExceededError(detail);
+    case 'fixture-miss':
+      return new FixtureMissError(detail);
+    case 'unexpected':
+      return new UnexpectedError(detail);
+  }
+};
+
+/**
+ * Reads a retry hint from an error message. Gemini puts `"retryDelay": "23s"` in the
+ * RetryInfo details of a 429 body.
+ */
+const parseRetryDelayMs = (text: string): number | undefined => {
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(text);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+const AUTH_PATTERNS = ['API key not valid', 'API_KEY', 'PERMISSION_DENIED'];
+
+/**
+ * fetch rejects with a TypeError when the network fails: "Failed to fetch" in Chrome,
+ * "NetworkError when attempting to fetch resource." in Firefox, "Load failed" in Safari
+ * and "fetch failed" in Node. Other TypeErrors are bugs.
+ */
+const isNetworkError = (error: unknown): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+/**
+ * Classifies any thrown value into an AIServiceError. SDK errors carry an HTTP
+ * `status`; network failures (e.g. `TypeError: Failed to fetch`) count as unavailable.
+ * Anything else is unexpected and is not retried.
+ */
+export const classifyError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+
+  const detail = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown } | null)?.status;
+
+  // Gemini reports a bad key as a 400, so check for it before the status.
+  if (AUTH_PATTERNS.some(pattern => detail.includes(pattern)) || status === 401 || status === 403) {
+    return new AuthError(detail);
+  }
+  if (typeof status === 'number') {
+    if (status === 429) return new RateLimitedError(detail, parseRetryDelayMs(detail));
+    if (status === 408 || status >= 500) return new UnavailableError(detail);
+    if (status >= 400) return new InvalidRequestError(detail);
+  }
+  return isNetworkError(error) ? new UnavailableError(detail) : new UnexpectedError(detail);
+};
@@ -0,0 +1,176 @@
+declare var process: any;
+
+import { type Schema } from "@google/genai";
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { type AITask } from './aiTasks';
+
+/** The app feature a request originates from. Providers use it for canned data and logging. */
+export type AIFeature = 'tutor' | 'memory' | 'recap' | 'misconception' | 'summary' | 'problems' | 'verification' | 'diagram' | 'simulation';
+
+/** 'replay' answers from a recorded fixture and is chosen on the settings screen, not at build time. */
+export type AIProviderId = 'proxy' | 'gemini' | 'mock' | 'replay';
+
+const PROVIDER_IDS: AIProviderId[] = ['proxy', 'gemini', 'mock'];
+
+export type AIPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface AIContent {
+  role: 'user' | 'model';
+  parts: AIPart[];
+}
+
+/** Structured context about a request, e.g. the topic and how many items were asked for. */
+export interface AIRequestMeta {
+  topic?: string;
+  count?: number;
+  /** The raw student input the request is about, kept apart from the full prompt. */
+  input?: string;
+}
+
+/** Sampling options for one request; unset options use the model's defaults. */
+export interface GenerationOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ChatRequest {
+  /** What the request is for; the proxy rebuilds the request from it instead of trusting the prompt. */
+  task: AITask;
+  feature: AIFeature;
+  model: string;
+  generation?: GenerationOptions;
+  systemInstruction: string;
+  history: AIContent[];
+  /** Plain text, or a list of parts when the message carries images. */
+  message: string | AIPart[];
+  meta?: AIRequestMeta;
+  /** Cancels the request, or stops a streaming reply early. */
+  signal?: AbortSignal;
+}
+
+export interface ContentRequest {
+  /** What the request is for; the proxy rebuilds the request from it instead of trusting the prompt. */
+  task: AITask;
+  feature: AIFeature;
+  model: string;
+  generation?: GenerationOptions;
+  /** A plain prompt, or a list of parts for multimodal input. */
+  contents: string | AIPart[];
+  meta?: AIRequestMeta;
+  /** Cancels the request. */
+  signal?: AbortSignal;
+}
+
+export interface JsonRequest extends ContentRequest {
+  responseSchema: Schema;
+}
+
+/** The token counts the backend reported for one call. */
+export interface AIUsage {
+  promptTokens: number;
+  /** Generated tokens, including any the model spent thinking. */
+  responseTokens: number;
+}
+
+export interface AIResponse {
+  text: string;
+  usage?: AIUsage;
+}
+
+/**
+ * The contract every model backend implements. Services build provider-neutral
+ * requests and never talk to an SDK directly.
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  chat(request: ChatRequest): Promise<AIResponse>;
+  /**
+   * Streams a chat reply as text chunks, stopping early when the request's signal aborts.
+   * Returns the token usage once the stream ends, if the backend reported it.
+   */
+  chatStream(request: ChatRequest): AsyncGenerator<string, AIUsage | undefined>;
+  generateJson(request: JsonRequest): Promise<AIResponse>;
+  generateContent(request: ContentRequest): Promise<AIResponse>;
+}
+
+let activeProvider: AIProvider | null = null;
+
+// A key entered on the settings screen; it takes precedence over the build-time setup.
+let runtimeApiKey = '';
+
+/**
+ * Creates a provider by id. The default 'proxy' provider sends every call through the
+ * backend server so the API key never reaches the browser. `AI_PROVIDER=gemini` calls
+ * Gemini directly with a build-time key (local development only), and `AI_PROVIDER=mock`
+ * runs the whole app offline against deterministic canned data.
+ */
+export const createAIProvider = (id: AIProviderId): AIProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      return createGeminiProvider(process.env.API_KEY);
+    case 'proxy':
+    default:
+      return createProxyProvider(process.env.AI_PROXY_URL ?? '');
+  }
+};
+
+const configuredProviderId = (): AIProviderId => {
+  const configured = process.env.AI_PROVIDER as AIProviderId | undefined;
+  return configured && PROVIDER_IDS.includes(configured) ? configured : 'proxy';
+};
+
+/**
+ * Returns the active provider, creating it on first use. A runtime API key switches
+ * to direct Gemini calls, except in mock mode, which never leaves the browser.
+ */
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProviderForKey(runtimeApiKey);
+  }
+  return activeProvider;
+};
+
+/**
+ * Which provider the app would use with a runtime API key, or with none when it is empty.
+ */
+export const providerIdForKey = (apiKey: string): AIProviderId => {
+  const configured = configuredProviderId();
+  return apiKey && configured !== 'mock' ? 'gemini' : configured;
+};
+
+/**
+ * Creates the provider the app would use with a runtime API key, or with none when it is empty.
+ */
+export const createProviderForKey = (apiKey: string): AIProvider => {
+  const id = providerIdForKey(apiKey);
+  return id === 'gemini' && apiKey ? createGeminiProvider(apiKey) : createAIProvider(id);
+};
+
+/**
+ * Uses an API key entered at runtime, or goes back to the build-time setup when it is empty.
+ */
+export const setRuntimeApiKey = (apiKey: string): void => {
+  if (apiKey === runtimeApiKey) return;
+  runtimeApiKey = apiKey;
+  activeProvider = null;
+};
+
+/**
+ * Whether requests cannot work until the user enters an API key: direct Gemini calls
+ * were configured but no key was built in or entered.
+ */
+export const needsApiKey = (apiKey: string): boolean =>
+  configuredProviderId() === 'gemini' && !process.env.API_KEY && !apiKey;
+
+/**
+ * Replaces the active provider, e.g. to switch to the mock provider at runtime.
+ */
+export const setAIProvider = (provider: AIProvider): void => {
+  activeProvider = provider;
+};
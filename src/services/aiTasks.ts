@@ -0,0 +1,303 @@
+import { Type } from "@google/genai";
+import { type AnswerKey, type ChatImage, type HintLevel, type PracticeDiscussion, type PracticeProblem, type TutorMode } from '../types';
+import { MISCONCEPTIONS, NO_MISCONCEPTION_ID, getMisconception } from '../data/misconceptions';
+import { CURRICULUM, type CurriculumTopic, describeCurriculumTopic } from '../data/curriculum';
+import { type AIPart, type ChatRequest, type ContentRequest, type JsonRequest } from './aiProvider';
+import { type PromptVersion, renderPrompt } from './prompts';
+import { toImagePart } from './imageParts';
+import { type ValidationIssue, formatIssues } from './validation';
+
+/**
+ * The requests the app makes, described by their domain parameters (a topic, a count, the
+ * student's message) instead of by prompt. The browser and the proxy server build the
+ * provider request from a task with the same code, so the proxy only ever sends prompts and
+ * schemas from the prompt registry and cannot be used as an open relay.
+ */
+
+/**
+ * A turn of the conversation as the model is shown it, without any UI state. Earlier
+ * turns carry only how many images they had: sending every photo again on every turn
+ * would soon outgrow the request size limit, so images go with the message that attaches them.
+ */
+export interface TutorTurn {
+  role: 'user' | 'model';
+  text: string;
+  imageCount?: number;
+  hintLevel?: HintLevel;
+}
+
+/** The model's invalid JSON and what was wrong with it, sent back for a corrected answer. */
+export interface JsonRepair {
+  previousOutput: string;
+  issues: ValidationIssue[];
+}
+
+export type ChatTask =
+  | { kind: 'connection-test' }
+  | {
+      kind: 'tutor-turn';
+      mode?: TutorMode;
+      /** The memory note that stands in for the turns before `history`. */
+      memory?: string;
+      practice?: PracticeDiscussion;
+      history: TutorTurn[];
+      message: string;
+      images?: ChatImage[];
+      /** Asks for a hint at this rung of the ladder instead of answering the message. */
+      hintLevel?: HintLevel;
+    }
+  | { kind: 'practice-opening'; mode?: TutorMode; practice: PracticeDiscussion };
+
+export type JsonTask = (
+  | { kind: 'session-recap'; earlierNotes?: string; turns: TutorTurn[]; misconceptionIds: string[] }
+  | { kind: 'misconception-tag'; history: TutorTurn[]; studentMessage: string; tutorReply: string }
+  | { kind: 'topic-summary'; topic: CurriculumTopic }
+  | { kind: 'practice-problems'; topic: CurriculumTopic; count: number }
+  | { kind: 'problem-solve'; problem: string; options: PracticeProblem['options'] }
+) & { repair?: JsonRepair };
+
+export type ContentTask =
+  | { kind: 'conversation-summary'; previousSummary?: string; turns: TutorTurn[] }
+  | { kind: 'diagram-feedback'; question: string; image: ChatImage }
+  | { kind: 'simulation'; request: string };
+
+export type AITask = ChatTask | JsonTask | ContentTask;
+
+export type AITaskKind = AITask['kind'];
+
+/** A provider request built from a task; the caller adds the model, sampling options and signal. */
+export interface AIRequestDraft<R> {
+  request: Omit<R, 'model' | 'generation' | 'signal'>;
+  /** The revision of the task's main prompt, to record on what it produces. */
+  promptVersion: PromptVersion;
+}
+
+export const CHAT_TASK_KINDS: AITaskKind[] = ['connection-test', 'tutor-turn', 'practice-opening'];
+export const JSON_TASK_KINDS: AITaskKind[] = ['session-recap', 'misconception-tag', 'topic-summary', 'practice-problems', 'problem-solve'];
+export const CONTENT_TASK_KINDS: AITaskKind[] = ['conversation-summary', 'diagram-feedback', 'simulation'];
+
+// The system prompt of each teaching mode; Socratic questioning keeps the original template.
+export const TUTOR_MODE_PROMPTS: Record<TutorMode, 'tutor-system' | 'tutor-explain' | 'tutor-quiz' | 'tutor-exam-coach'> = {
+  socratic: 'tutor-system',
+  explain: 'tutor-explain',
+  quiz: 'tutor-quiz',
+  'exam-coach': 'tutor-exam-coach',
+};
+
+// A hint turn is shown as 我卡住了 but was sent to the model as the hint request.
+const hintRequestText = (level: HintLevel): string => renderPrompt('hint-request', { level }).text;
+
+// Images go first so the text can refer to them; an image-only turn has no text part.
+const toParts = (text: string, images: ChatImage[] = []): AIPart[] => [
+  ...images.map(toImagePart),
+  ...(text ? [{ text }] : []),
+];
+
+// Past turns only note that images were shown; the model saw them when they were sent.
+const imageNote = (count = 0): string => (count > 0 ? `(attached ${count} image${count > 1 ? 's' : ''}) ` : '');
+
+const toChatHistory = (history: TutorTurn[]) => history.map(turn => ({
+  role: turn.role,
+  parts: turn.hintLevel ? [{ text: hintRequestText(turn.hintLevel) }] : [{ text: `${imageNote(turn.imageCount)}${turn.text}` }],
+}));
+
+const describeTurn = (turn: TutorTurn): string =>
+  turn.hintLevel ? `(asked for a level ${turn.hintLevel} hint)` : `${imageNote(turn.imageCount)}${turn.text}`;
+
+const toTranscript = (turns: TutorTurn[]) =>
+  turns.map(turn => `${turn.role === 'user' ? 'Student' : 'Tutor'}: ${describeTurn(turn)}`).join('\n');
+
+export const formatOptions = (options: PracticeProblem['options']): string =>
+  Object.entries(options).map(([key, value]) => `(${key}) ${value}`).join('\n');
+
+const practiceContextText = (practice: PracticeDiscussion): string => renderPrompt('practice-context', {
+  topic: practice.topic,
+  problem: practice.problem,
+  options: formatOptions(practice.options),
+  correctAnswer: practice.correctAnswer,
+  chosenAnswer: practice.chosenAnswer,
+  solution: practice.solution,
+}).text;
+
+const tutorSystemInstruction = ({ memory, practice, mode = 'socratic' }: { memory?: string; practice?: PracticeDiscussion; mode?: TutorMode }): string => [
+  renderPrompt(TUTOR_MODE_PROMPTS[mode], {}).text,
+  ...(practice ? [practiceContextText(practice)] : []),
+  ...(memory ? [renderPrompt('tutor-memory', { summary: memory }).text] : []),
+].join('\n\n');
+
+/**
+ * Builds the chat request for a tutor task.
+ */
+export const buildChatRequest = (task: ChatTask): AIRequestDraft<ChatRequest> => {
+  switch (task.kind) {
+    case 'connection-test': {
+      const prompt = renderPrompt('connection-test', {});
+      return {
+        request: { task, feature: 'tutor', systemInstruction: prompt.text, history: [], message: 'ping' },
+        promptVersion: prompt.version,
+      };
+    }
+    case 'tutor-turn': {
+      const prompt = renderPrompt(TUTOR_MODE_PROMPTS[task.mode ?? 'socratic'], {});
+      const message = task.hintLevel
+        ? hintRequestText(task.hintLevel)
+        : task.images?.length ? toParts(task.message, task.images) : task.message;
+      return {
+        request: { task, feature: 'tutor', systemInstruction: tutorSystemInstruction(task), history: toChatHistory(task.history), message },
+        promptVersion: prompt.version,
+      };
+    }
+    case 'practice-opening': {
+      const prompt = renderPrompt('practice-opening', { chosenAnswer: task.practice.chosenAnswer });
+      return {
+        request: { task, feature: 'tutor', systemInstruction: tutorSystemInstruction({ practice: task.practice, mode: task.mode }), history: [], message: prompt.text },
+        promptVersion: prompt.version,
+      };
+    }
+  }
+};
+
+const withRepairInstructions = (contents: string, repair?: JsonRepair): string | AIPart[] => {
+  if (!repair) return contents;
+  const prompt = renderPrompt('json-repair', { previousOutput: repair.previousOutput, issues: formatIssues(repair.issues) });
+  return [{ text: contents }, { text: prompt.text }];
+};
+
+const jsonDraft = (task: JsonTask, feature: JsonRequest['feature'], prompt: { text: string; version: PromptVersion }, responseSchema: JsonRequest['responseSchema'], meta?: JsonRequest['meta']): AIRequestDraft<JsonRequest> => ({
+  request: { task, feature, contents: withRepairInstructions(prompt.text, task.repair), responseSchema, meta },
+  promptVersion: prompt.version,
+});
+
+/** The ids a misconception tag may carry: the taxonomy plus 'none'. */
+export const misconceptionTaxonomyIds = (): string[] => [...MISCONCEPTIONS.map(m => m.id), NO_MISCONCEPTION_ID];
+
+/**
+ * Builds the JSON request, with its response schema, for a task. A task carrying a repair
+ * asks again with the exact field errors of the previous answer.
+ */
+export const buildJsonRequest = (task: JsonTask): AIRequestDraft<JsonRequest> => {
+  switch (task.kind) {
+    case 'session-recap': {
+      const tagged = [...new Set(task.misconceptionIds)].flatMap(id => {
+        const misconception = getMisconception(id);
+        return misconception ? [`- ${misconception.label}（${misconception.description}）`] : [];
+      });
+      const topics = CURRICULUM.flatMap(course => course.units.flatMap(unit => unit.subtopics.map(subtopic => `- ${subtopic.name}`)));
+      const prompt = renderPrompt('session-recap', {
+        earlierNotes: task.earlierNotes ?? '（無）',
+        transcript: toTranscript(task.turns),
+        taggedMisconceptions: tagged.length > 0 ? tagged.join('\n') : '（無）',
+        topics: topics.join('\n'),
+      });
+      return jsonDraft(task, 'recap', prompt, {
+        type: Type.OBJECT,
+        properties: {
+          concepts: { type: Type.ARRAY, items: { type: Type.STRING } },
+          misconceptions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                misconception: { type: Type.STRING },
+                correction: { type: Type.STRING },
+              },
+              required: ["misconception", "correction"],
+            },
+          },
+          formulas: { type: Type.ARRAY, items: { type: Type.STRING } },
+          nextTopics: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["concepts", "misconceptions", "formulas", "nextTopics"],
+      });
+    }
+    case 'misconception-tag': {
+      const taxonomy = MISCONCEPTIONS.map(m => `- ${m.id}: ${m.label}（${m.description}）[單元：${m.curriculumUnit}]`).join('\n');
+      const prompt = renderPrompt('misconception-tag', {
+        taxonomy,
+        transcript: toTranscript(task.history),
+        studentMessage: task.studentMessage,
+        tutorReply: task.tutorReply,
+        noneId: NO_MISCONCEPTION_ID,
+      });
+      return jsonDraft(task, 'misconception', prompt, {
+        type: Type.OBJECT,
+        properties: {
+            misconceptionId: { type: Type.STRING, enum: misconceptionTaxonomyIds() },
+            confidence: { type: Type.NUMBER, description: "Confidence in the tag, from 0 to 1." },
+            curriculumUnit: { type: Type.STRING, description: "The related 108 curriculum unit." }
+        },
+        required: ["misconceptionId", "confidence", "curriculumUnit"]
+      }, { input: task.studentMessage });
+    }
+    case 'topic-summary': {
+      const prompt = renderPrompt('topic-summary', { topic: describeCurriculumTopic(task.topic) });
+      return jsonDraft(task, 'summary', prompt, {
+        type: Type.OBJECT,
+        properties: {
+            keyConcepts: { type: Type.STRING, description: "Key concept reminders for the topic." },
+            formulas: { type: Type.STRING, description: "List of essential formulas." },
+            solvingTechniques: { type: Type.STRING, description: "Tips and techniques for solving problems." }
+        },
+        required: ["keyConcepts", "formulas", "solvingTechniques"]
+      }, { topic: task.topic.label });
+    }
+    case 'practice-problems': {
+      const prompt = renderPrompt('practice-problems', { topic: describeCurriculumTopic(task.topic), count: task.count });
+      return jsonDraft(task, 'problems', prompt, {
+        type: Type.ARRAY,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                problem: { type: Type.STRING },
+                options: {
+                    type: Type.OBJECT,
+                    properties: {
+                        a: { type: Type.STRING },
+                        b: { type: Type.STRING },
+                        c: { type: Type.STRING },
+                        d: { type: Type.STRING },
+                    },
+                    required: ["a", "b", "c", "d"],
+                },
+                correctAnswer: { type: Type.STRING },
+                solution: { type: Type.STRING },
+                youtubeLink: { type: Type.STRING, description: "A relevant, working YouTube URL for a concept tutorial." }
+            },
+            required: ["problem", "options", "correctAnswer", "solution", "youtubeLink"],
+        }
+      }, { topic: task.topic.label, count: task.count });
+    }
+    case 'problem-solve': {
+      const prompt = renderPrompt('problem-solve', { problem: task.problem, options: formatOptions(task.options) });
+      const answers: AnswerKey[] = ['a', 'b', 'c', 'd'];
+      return jsonDraft(task, 'verification', prompt, {
+        type: Type.OBJECT,
+        properties: {
+            answer: { type: Type.STRING, enum: answers },
+            reasoning: { type: Type.STRING }
+        },
+        required: ["answer", "reasoning"]
+      }, { input: task.problem });
+    }
+  }
+};
+
+/**
+ * Builds the free-form content request for a task.
+ */
+export const buildContentRequest = (task: ContentTask): AIRequestDraft<ContentRequest> => {
+  switch (task.kind) {
+    case 'conversation-summary': {
+      const prompt = renderPrompt('conversation-summary', { previousSummary: task.previousSummary ?? '（尚無）', transcript: toTranscript(task.turns) });
+      return { request: { task, feature: 'memory', contents: prompt.text }, promptVersion: prompt.version };
+    }
+    case 'diagram-feedback': {
+      const prompt = renderPrompt('diagram-feedback', { question: task.question });
+      return { request: { task, feature: 'diagram', contents: [{ text: prompt.text }, toImagePart(task.image)] }, promptVersion: prompt.version };
+    }
+    case 'simulation': {
+      const prompt = renderPrompt('simulation', { request: task.request });
+      return { request: { task, feature: 'simulation', contents: prompt.text }, promptVersion: prompt.version };
+    }
+  }
+};
@@ -0,0 +1,75 @@
+// A thin promise wrapper around the app's IndexedDB database.
+// Each feature owns one object store; new stores are added by bumping DB_VERSION.
+
+const DB_NAME = 'ai-physics-tutor';
+const DB_VERSION = 6;
+
+export type StoreName = 'sessions' | 'videos' | 'responseCache' | 'settings' | 'usage' | 'fixtures' | 'reviews';
+
+const STORES: StoreName[] = ['sessions', 'videos', 'responseCache', 'settings', 'usage', 'fixtures', 'reviews'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    // A write can be aborted without an error event, e.g. by QuotaExceededError.
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const dbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const dbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const dbPut = <T>(store: StoreName, value: T): Promise<void> =>
+  runRequest<void>(store, 'readwrite', s => s.put(value));
+
+/**
+ * Puts every value in a single transaction, so either all of them are stored or none is.
+ */
+export const dbPutAll = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    for (const value of values) objectStore.put(value);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const dbDelete = (store: StoreName, key: IDBValidKey): Promise<void> =>
+  runRequest<void>(store, 'readwrite', s => s.delete(key));
+
+export const dbClear = (store: StoreName): Promise<void> =>
+  runRequest<void>(store, 'readwrite', s => s.clear());
@@ -77,6 +77,13 @@ const getPdfStyles = (): string => `
       padding: 0;
       margin-bottom: 25px;
     }
+    ul, ol {
+      padding-left: 24px;
+      margin-bottom: 12px;
+    }
+    .katex-display {
+      margin: 8px 0;
+    }
     img {
       max-width: 100%;
       height: auto;
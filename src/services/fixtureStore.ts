@@ -0,0 +1,90 @@
+import { dbDelete, dbGet, dbPut } from './db';
+import { type AIProvider } from './aiProvider';
+import { FixtureMissError } from './aiErrors';
+import { type Fixture, type FixtureEntry, createEmptyFixture, createRecordingProvider, createReplayProvider } from './fixtures';
+
+/** The recording in progress, and the fixture loaded for replay. */
+export type FixtureSlot = 'recording' | 'replay';
+
+interface StoredFixture {
+  id: FixtureSlot;
+  fixture: Fixture;
+}
+
+export const getFixture = async (slot: FixtureSlot): Promise<Fixture | undefined> =>
+  (await dbGet<StoredFixture>('fixtures', slot))?.fixture;
+
+const saveFixture = (slot: FixtureSlot, fixture: Fixture): Promise<void> =>
+  dbPut<StoredFixture>('fixtures', { id: slot, fixture });
+
+// Entries are appended one at a time so concurrent calls cannot overwrite each other's.
+let recordingQueue: Promise<void> = Promise.resolve();
+
+const appendToRecording = (entry: FixtureEntry): void => {
+  recordingQueue = recordingQueue
+    .then(async () => {
+      const fixture = (await getFixture('recording')) ?? createEmptyFixture();
+      await saveFixture('recording', { ...fixture, entries: [...fixture.entries, entry] });
+    })
+    .catch(error => console.warn("Fixture entry could not be recorded:", error));
+};
+
+/**
+ * Starts a new, empty recording.
+ * @param description What the recording is meant to reproduce.
+ */
+export const clearRecording = async (description?: string): Promise<void> => {
+  await recordingQueue;
+  await saveFixture('recording', createEmptyFixture(description));
+};
+
+/**
+ * Wraps a provider so its calls are appended to the stored recording.
+ */
+export const recordingProvider = (provider: AIProvider): AIProvider => createRecordingProvider(provider, appendToRecording);
+
+let replay: AIProvider | null = null;
+// Requests the current replay answered with a stand-in entry, shown on the settings screen.
+let fallbackCount = 0;
+
+/**
+ * Rewinds the replay, so every recorded entry can be served again.
+ */
+export const restartReplay = (): void => {
+  replay = null;
+  fallbackCount = 0;
+};
+
+/**
+ * Stores the fixture to replay and starts replaying it from the beginning.
+ */
+export const loadReplayFixture = async (fixture: Fixture): Promise<void> => {
+  await saveFixture('replay', fixture);
+  restartReplay();
+};
+
+export const clearReplayFixture = async (): Promise<void> => {
+  await dbDelete('fixtures', 'replay');
+  restartReplay();
+};
+
+/** How many requests since the replay started were answered by an entry recorded for another request. */
+export const getReplayFallbackCount = (): number => fallbackCount;
+
+/**
+ * Returns the provider that answers from the loaded fixture. It is kept between calls
+ * because it remembers which entries it has already served; restart the replay after
+ * changing `fallbackToNext`.
+ * @param fallbackToNext Whether an unmatched request may be answered by the next recorded entry.
+ * @throws FixtureMissError when no fixture has been loaded.
+ */
+export const getReplayProvider = async (fallbackToNext: boolean): Promise<AIProvider> => {
+  if (!replay) {
+    const fixture = await getFixture('replay');
+    if (!fixture) {
+      throw new FixtureMissError('Replay mode is on but no fixture has been loaded.');
+    }
+    replay = createReplayProvider(fixture, { fallbackToNext, onFallback: () => { fallbackCount++; } });
+  }
+  return replay;
+};
@@ -0,0 +1,196 @@
+import { type AIFeature, type AIProvider, type AIResponse, type AIUsage, type ChatRequest, type ContentRequest, type JsonRequest } from './aiProvider';
+import { type AIErrorKind, FixtureMissError, HTTP_STATUS_BY_KIND, classifyError, createAIServiceError } from './aiErrors';
+import { type ProxyOperation } from './proxyRoutes';
+import { hashString } from './hash';
+
+/**
+ * Record-and-replay for the provider layer. A recording provider passes every call
+ * through and keeps the request with its response, streamed chunks or error; a replay
+ * provider answers from those entries without touching the network. This file has no
+ * browser or Node dependencies so the app and the proxy server share it.
+ */
+
+export const FIXTURE_FORMAT_VERSION = 1;
+
+type RecordedRequest = Omit<ChatRequest, 'signal'> | Omit<JsonRequest, 'signal'> | Omit<ContentRequest, 'signal'>;
+
+export type FixtureOutcome =
+  | { response: AIResponse }
+  | { chunks: string[]; usage?: AIUsage }
+  | { error: { kind: AIErrorKind; detail?: string } };
+
+export interface FixtureEntry {
+  /** `${operation}:${feature}:${hash of the request}`; identical requests share a key. */
+  key: string;
+  operation: ProxyOperation;
+  feature: AIFeature;
+  model: string;
+  /** The request without its abort signal, kept so a fixture can be read and diffed by hand. */
+  request: RecordedRequest;
+  recordedAt: number;
+  outcome: FixtureOutcome;
+}
+
+export interface Fixture {
+  version: typeof FIXTURE_FORMAT_VERSION;
+  /** Free text, e.g. what the student was doing when the bad output appeared. */
+  description?: string;
+  entries: FixtureEntry[];
+}
+
+export const createEmptyFixture = (description?: string): Fixture => ({ version: FIXTURE_FORMAT_VERSION, description, entries: [] });
+
+const withoutSignal = ({ signal, ...request }: ChatRequest | ContentRequest): RecordedRequest => request;
+
+/**
+ * The key a request is recorded and looked up under.
+ */
+export const fixtureKey = (operation: ProxyOperation, request: ChatRequest | ContentRequest): string =>
+  `${operation}:${request.feature}:${hashString(JSON.stringify(withoutSignal(request)))}`;
+
+/**
+ * Parses and checks a fixture file.
+ * @throws Error with a readable reason when the text is not a fixture this version understands.
+ */
+export const parseFixture = (text: string): Fixture => {
+  const fixture = JSON.parse(text) as Partial<Fixture>;
+  if (fixture.version !== FIXTURE_FORMAT_VERSION) {
+    throw new Error(`Unsupported fixture version: ${fixture.version}`);
+  }
+  if (!Array.isArray(fixture.entries) || fixture.entries.some(entry => typeof entry?.key !== 'string' || !entry.outcome)) {
+    throw new Error('Fixture entries are missing or malformed.');
+  }
+  return fixture as Fixture;
+};
+
+/**
+ * Wraps a provider so every call, including failed ones, is handed to onRecord once it finishes.
+ * Calls the caller aborts are not recorded, since they have no outcome to replay.
+ * @param provider The provider that makes the real calls.
+ * @param onRecord Receives each finished entry, e.g. to append it to a file.
+ */
+export const createRecordingProvider = (provider: AIProvider, onRecord: (entry: FixtureEntry) => void): AIProvider => {
+  const save = (operation: ProxyOperation, request: ChatRequest | ContentRequest, outcome: FixtureOutcome) => {
+    if (request.signal?.aborted) return;
+    onRecord({
+      key: fixtureKey(operation, request),
+      operation,
+      feature: request.feature,
+      model: request.model,
+      request: withoutSignal(request),
+      recordedAt: Date.now(),
+      outcome,
+    });
+  };
+
+  const recorded = async <R extends ChatRequest | ContentRequest>(operation: ProxyOperation, request: R, call: (request: R) => Promise<AIResponse>): Promise<AIResponse> => {
+    try {
+      const response = await call(request);
+      save(operation, request, { response });
+      return response;
+    } catch (error) {
+      const { kind, detail } = classifyError(error);
+      save(operation, request, { error: { kind, detail } });
+      throw error;
+    }
+  };
+
+  return {
+    id: provider.id,
+    chat: request => recorded('chat', request, r => provider.chat(r)),
+    async *chatStream(request) {
+      const chunks: string[] = [];
+      try {
+        const stream = provider.chatStream(request);
+        let next = await stream.next();
+        while (!next.done) {
+          chunks.push(next.value);
+          yield next.value;
+          next = await stream.next();
+        }
+        save('chatStream', request, { chunks, usage: next.value });
+        return next.value;
+      } catch (error) {
+        const { kind, detail } = classifyError(error);
+        save('chatStream', request, { error: { kind, detail } });
+        throw error;
+      }
+    },
+    generateJson: request => recorded('generateJson', request, r => provider.generateJson(r)),
+    generateContent: request => recorded('generateContent', request, r => provider.generateContent(r)),
+  };
+};
+
+// Recorded kinds from an older build may no longer exist; they replay as unavailable.
+const replayError = ({ kind, detail }: { kind: AIErrorKind; detail?: string }) =>
+  createAIServiceError(kind in HTTP_STATUS_BY_KIND ? kind : 'unavailable', detail);
+
+export interface ReplayOptions {
+  /**
+   * When the exact request was never recorded (e.g. the student typed something else),
+   * answer with the next unused entry for the same operation and feature, so a whole
+   * session can still be clicked through. Off by default: the stand-in answers a
+   * different question.
+   */
+  fallbackToNext?: boolean;
+  /** Called whenever a stand-in entry answers a request, so the UI can say so. */
+  onFallback?: (entry: FixtureEntry) => void;
+}
+
+/**
+ * Creates a provider that answers only from a fixture. A request is matched by its key.
+ * @param fixture The recorded entries.
+ * @param options Whether unmatched requests may be answered by another entry.
+ * @throws FixtureMissError when no entry can answer a request.
+ */
+export const createReplayProvider = (fixture: Fixture, { fallbackToNext = false, onFallback }: ReplayOptions = {}): AIProvider => {
+  const used = new Set<FixtureEntry>();
+
+  const lookup = (operation: ProxyOperation, request: ChatRequest | ContentRequest): FixtureEntry => {
+    const key = fixtureKey(operation, request);
+    const exact = fixture.entries.filter(entry => entry.key === key);
+    // Repeated identical requests get the recorded answers in order, then the last one again.
+    let entry: FixtureEntry | undefined = exact.find(e => !used.has(e)) ?? exact[exact.length - 1];
+    if (!entry && fallbackToNext) {
+      entry = fixture.entries.find(e => !used.has(e) && e.operation === operation && e.feature === request.feature);
+      if (entry) {
+        console.warn(`No exact fixture for ${operation}/${request.feature}; replaying the next recorded one.`);
+        onFallback?.(entry);
+      }
+    }
+    if (!entry) {
+      throw new FixtureMissError(`The fixture has no recorded ${operation} response for this ${request.feature} request.`);
+    }
+    used.add(entry);
+    return entry;
+  };
+
+  const replay = async (operation: ProxyOperation, request: ChatRequest | ContentRequest): Promise<AIResponse> => {
+    request.signal?.throwIfAborted();
+    const { outcome } = lookup(operation, request);
+    if ('error' in outcome) throw replayError(outcome.error);
+    if ('response' in outcome) return outcome.response;
+    return { text: outcome.chunks.join(''), usage: outcome.usage };
+  };
+
+  return {
+    id: 'replay',
+    chat: request => replay('chat', request),
+    async *chatStream(request) {
+      request.signal?.throwIfAborted();
+      const { outcome } = lookup('chatStream', request);
+      if ('error' in outcome) throw replayError(outcome.error);
+      if ('response' in outcome) {
+        yield outcome.response.text;
+        return outcome.response.usage;
+      }
+      for (const chunk of outcome.chunks) {
+        if (request.signal?.aborted) return undefined;
+        yield chunk;
+      }
+      return outcome.usage;
+    },
+    generateJson: request => replay('generateJson', request),
+    generateContent: request => replay('generateContent', request),
+  };
+};
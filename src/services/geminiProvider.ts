@@ -0,0 +1,104 @@
+import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import { type AIProvider, type ChatRequest, type ContentRequest, type JsonRequest, type AIResponse, type AIUsage } from './aiProvider';
+import { AuthError, SafetyBlockedError } from './aiErrors';
+
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT']);
+
+/**
+ * Returns the response text, throwing a SafetyBlockedError when the prompt or the
+ * answer was blocked instead of handing back an empty string.
+ */
+const textOf = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(`Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+    throw new SafetyBlockedError(`Response blocked: ${finishReason}`);
+  }
+  return response.text ?? '';
+};
+
+const usageOf = ({ usageMetadata }: GenerateContentResponse): AIUsage | undefined =>
+  usageMetadata && {
+    promptTokens: usageMetadata.promptTokenCount ?? 0,
+    responseTokens: (usageMetadata.candidatesTokenCount ?? 0) + (usageMetadata.thoughtsTokenCount ?? 0),
+  };
+
+/**
+ * Creates the Google Gemini provider. The SDK client is created on first use, so a
+ * missing key only fails the call that needs it instead of the whole app at import time.
+ * @param apiKey The Gemini API key.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new AuthError("API_KEY is not set. Enter an API key on the settings screen.");
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  const toContents = (contents: ContentRequest['contents']) =>
+    typeof contents === 'string' ? contents : { parts: contents };
+
+  return {
+    id: 'gemini',
+
+    async chat({ model, generation, systemInstruction, history, message, signal }: ChatRequest): Promise<AIResponse> {
+      const chat = getClient().chats.create({
+        model,
+        config: { systemInstruction, ...generation },
+        history,
+      });
+      const result = await chat.sendMessage({ message, config: { abortSignal: signal } });
+      return { text: textOf(result), usage: usageOf(result) };
+    },
+
+    async *chatStream({ model, generation, systemInstruction, history, message, signal }: ChatRequest): AsyncGenerator<string, AIUsage | undefined> {
+      const chat = getClient().chats.create({
+        model,
+        config: { systemInstruction, ...generation },
+        history,
+      });
+      const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+      // Each chunk carries the running totals, so the last one seen is the usage so far.
+      let usage: AIUsage | undefined;
+      for await (const chunk of stream) {
+        if (signal?.aborted) return usage;
+        usage = usageOf(chunk) ?? usage;
+        const text = textOf(chunk);
+        if (text) yield text;
+      }
+      return usage;
+    },
+
+    async generateJson({ model, generation, contents, responseSchema, signal }: JsonRequest): Promise<AIResponse> {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: toContents(contents),
+        config: {
+          ...generation,
+          responseMimeType: "application/json",
+          responseSchema,
+          abortSignal: signal,
+        },
+      });
+      return { text: textOf(response), usage: usageOf(response) };
+    },
+
+    async generateContent({ model, generation, contents, signal }: ContentRequest): Promise<AIResponse> {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: toContents(contents),
+        config: { ...generation, abortSignal: signal },
+      });
+      return { text: textOf(response), usage: usageOf(response) };
+    },
+  };
+};
@@ -1,209 +1,436 @@
 
-declare var process: any;
-
-import { GoogleGenAI, Type } from "@google/genai";
-import { type ChatMessage, type PracticeProblem, type TopicSummary } from '../types';
-
-const apiKey = process.env.API_KEY;
-
-if (!apiKey) {
-    // This error will halt the application if the key is not set.
-    throw new Error("API_KEY environment variable is not set. Please check your project settings.");
-}
-
-const ai = new GoogleGenAI({ apiKey });
+import { type AnswerKey, type ChatImage, type ChatMessage, type ConversationMemory, type GeneratedText, type HintLevel, type MisconceptionTag, type PracticeDiscussion, type PracticeProblem, type SessionRecap, type TopicSummary, type TutorMode } from '../types';
+import { type CurriculumTopic } from '../data/curriculum';
+import { type AIFeature, type AIPart, type AIProvider, type GenerationOptions, createProviderForKey, getAIProvider, setRuntimeApiKey } from './aiProvider';
+import { type JsonTask, type TutorTurn, TUTOR_MODE_PROMPTS, buildChatRequest, buildContentRequest, buildJsonRequest, misconceptionTaxonomyIds } from './aiTasks';
+import { meterProvider } from './usageMeter';
+import { getReplayProvider, recordingProvider } from './fixtureStore';
+import { type AIServiceError, ParseFailureError, classifyError } from './aiErrors';
+import { withRetry, withStreamRetry } from './retry';
+import { fileToGenerativePart } from './imageParts';
+import { type CacheOptions, type CachedResult, withResponseCache } from './responseCache';
+import { activePromptVersion } from './prompts';
+import { type AISettings, getSettings } from './settingsStore';
+import { conversationSignature } from './sessionStore';
+import { type ValidationIssue, type Validator, formatIssues, isPracticeProblem, misconceptionTagValidator, practiceProblemsValidator, problemSolutionValidator, sessionRecapValidator, topicSummaryValidator } from './validation';
 
 /**
- * Handles API errors by creating user-friendly, context-specific error objects.
- * This makes the control flow clearer for TypeScript.
+ * Logs a failed call and turns whatever was thrown into a typed AIServiceError,
+ * whose message is safe to show to the student.
+ * Callers rethrow the abort reason instead when their own signal fired, so a
+ * cancelled request never shows up as a failure.
  * @param error The original error object.
  * @param context A string describing the operation that failed.
- * @returns An Error object with a user-friendly message.
+ * @returns The classified error.
  */
-const handleApiError = (error: any, context: string): Error => {
+const handleApiError = (error: unknown, context: string): AIServiceError => {
     console.error(`Error in ${context}:`, error);
-    let message = `從 AI 伺服器獲取資料時發生錯誤。請稍後再試。`;
-    
-    const errorMessage = error.toString();
-
-    if (errorMessage.includes('500') || errorMessage.includes('503') || errorMessage.includes('Rpc failed')) {
-        message = 'AI 伺服器目前無法連線或發生內部錯誤，請稍後再試。';
-    } else if (errorMessage.includes('400')) {
-         message = '向 AI 伺服器發送的請求格式有誤 (錯誤 400)，這可能是由於輸入內容包含不安全或不支援的字詞。';
-    } else if (errorMessage.includes('429')) {
-        message = '您的請求頻率過高，請稍後再試。';
-    } else if (errorMessage.includes('API key not valid') || errorMessage.includes('API_KEY')) {
-        message = 'API 金鑰無效或未設置，請檢查您的環境設定。';
-    }
-    return new Error(message);
+    return classifyError(error);
 };
 
 /**
  * Parses a JSON string from a model response, robustly handling markdown fences.
  * @param text The raw text from the model response.
- * @returns The parsed JSON object.
+ * @returns The parsed value, or a validation issue describing why parsing failed.
  */
-const parseJsonFromResponse = <T>(text: string): T => {
+const parseJsonFromResponse = (text: string): { value: unknown } | { issue: ValidationIssue } => {
     // The model might return a JSON string wrapped in markdown fences.
     const cleanedText = text.trim().replace(/^```json\n?/, '').replace(/```$/, '');
     try {
-        return JSON.parse(cleanedText) as T;
+        return { value: JSON.parse(cleanedText) };
     } catch (e) {
         console.error("Failed to parse JSON:", cleanedText);
-        throw new Error("AI 返回的資料格式不正確，無法解析。");
+        return { issue: { path: '', message: `is not valid JSON (${(e as Error).message})` } };
     }
 }
 
+// The cache compares whole prompts; multipart prompts are compared as JSON.
+const promptText = (contents: string | AIPart[]): string => (typeof contents === 'string' ? contents : JSON.stringify(contents));
 
-const fileToGenerativePart = async (file: File) => {
-  const base64EncodedDataPromise = new Promise<string>((resolve) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-    reader.readAsDataURL(file);
-  });
-  return {
-    inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
-  };
+// How many times a JSON response that fails validation is sent back to the model for repair.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** The call a request goes out on: the provider, and the model and sampling options for its feature. */
+interface PreparedCall {
+  provider: AIProvider;
+  model: string;
+  generation: GenerationOptions;
+}
+
+/**
+ * Requests JSON from the model and validates it, re-asking with the exact field errors
+ * up to MAX_REPAIR_ATTEMPTS times.
+ * @param call The provider, model and sampling options to use.
+ * @param task The JSON task; each repair sends it again with the previous answer's errors.
+ * @param validate The validator for the expected shape.
+ * @param signal Optional signal that cancels the request.
+ * @returns The last parsed value together with any issues that remain after repair.
+ */
+const requestValidatedJson = async ({ provider, model, generation }: PreparedCall, task: JsonTask, validate: Validator, signal?: AbortSignal): Promise<{ value: unknown; issues: ValidationIssue[] }> => {
+  let current = task;
+  let result: { value: unknown; issues: ValidationIssue[] } = { value: undefined, issues: [] };
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { request } = buildJsonRequest(current);
+    const response = await withRetry(() => provider.generateJson({ ...request, model, generation, signal }), request.feature, signal);
+    const parsed = parseJsonFromResponse(response.text);
+    result = 'issue' in parsed
+      ? { value: undefined, issues: [parsed.issue] }
+      : { value: parsed.value, issues: validate(parsed.value, '') };
+    if (result.issues.length === 0) return result;
+    console.warn(`Invalid ${request.feature} JSON (attempt ${attempt + 1}):\n${formatIssues(result.issues)}`);
+    current = { ...task, repair: { previousOutput: response.text, issues: result.issues } };
+  }
+  return result;
+};
+
+/**
+ * Prepares a call for a feature: the provider to send it to, and the model and sampling
+ * options configured for the feature. It applies the saved runtime API key and the fixture
+ * mode. Live calls are metered, here or on the proxy, and refused once a daily budget is
+ * used up; replayed calls cost nothing and skip the meter.
+ */
+const prepareCall = async (feature: AIFeature): Promise<PreparedCall> => {
+  const { ai, fixtures } = await getSettings();
+  setRuntimeApiKey(ai.apiKey);
+  const { model, ...generation } = ai.models[feature];
+  const provider = fixtures.mode === 'replay'
+    ? await getReplayProvider(fixtures.fallbackToNext)
+    : meterProvider(fixtures.mode === 'record' ? recordingProvider(getAIProvider()) : getAIProvider());
+  return { provider, model, generation };
 };
 
-export const getSocraticResponse = async (history: ChatMessage[], newUserMessage: string): Promise<string> => {
+/**
+ * Sends one short chat turn with unsaved settings to check that the key and the tutor model work.
+ * It does not retry, so the result reflects the connection as it is right now.
+ * @param settings The AI settings to test, e.g. straight from the settings form.
+ * @param signal Optional signal that cancels the request.
+ * @returns The round-trip time in milliseconds.
+ */
+export const testConnection = async (settings: AISettings, signal?: AbortSignal): Promise<number> => {
+  const startedAt = Date.now();
   try {
-    const model = 'gemini-2.5-flash';
-    const chat = ai.chats.create({
-      model,
-      config: {
-          systemInstruction: `You are an expert high school physics tutor for Taiwanese students using the 18 curriculum. Your name is Socrates. Your goal is to help students overcome common physics misconceptions. You must NEVER give the direct answer. Instead, use the Socratic method to ask guiding, targeted questions that help the student discover their own error and arrive at the correct understanding. Refer to formulas they should know. Keep your responses concise and focused on one question at a time. Be encouraging and patient. Respond in Traditional Chinese.`,
-      },
-      history: history.map(msg => ({
-        role: msg.role,
-        parts: [{ text: msg.text }]
-      })),
-    });
-
-    const result = await chat.sendMessage({ message: newUserMessage });
-    return result.text ?? '';
+    const { model, ...generation } = settings.models.tutor;
+    const { request } = buildChatRequest({ kind: 'connection-test' });
+    await meterProvider(createProviderForKey(settings.apiKey)).chat({ ...request, model, generation, signal });
+    return Date.now() - startedAt;
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw handleApiError(error, 'testConnection');
+  }
+};
+
+/**
+ * The revision of the tutor's system prompt, to record on the replies it produces.
+ */
+export const getTutorPromptVersion = (mode: TutorMode = 'socratic'): string => activePromptVersion(TUTOR_MODE_PROMPTS[mode]);
+
+// Only what the model is shown of a message; UI state such as branches stays in the browser.
+const toTutorTurns = (messages: ChatMessage[]): TutorTurn[] =>
+  messages.map(({ role, text, images, hintLevel }) => ({ role, text, imageCount: images?.length || undefined, hintLevel }));
+
+export interface TutorTurnOptions {
+  /** The note that stands in for the turns before `history`, if the conversation was compacted. */
+  memory?: ConversationMemory;
+  /** Asks for a hint at this rung of the ladder instead of answering the message. */
+  hintLevel?: HintLevel;
+  /** Images the student attached to the new message. */
+  images?: ChatImage[];
+  /** The practice problem the session was opened from, if any. */
+  practice?: PracticeDiscussion;
+  /** The teaching mode; Socratic when unset. */
+  mode?: TutorMode;
+}
+
+const tutorTurnRequest = (history: ChatMessage[], message: string, { memory, hintLevel, images, practice, mode }: TutorTurnOptions) => buildChatRequest({
+  kind: 'tutor-turn',
+  mode,
+  memory: memory?.summary,
+  practice,
+  history: toTutorTurns(history),
+  message,
+  images,
+  hintLevel,
+}).request;
+
+export const getSocraticResponse = async (history: ChatMessage[], newUserMessage: string, signal?: AbortSignal, options: TutorTurnOptions = {}): Promise<string> => {
+  try {
+    const { provider, model, generation } = await prepareCall('tutor');
+    const request = tutorTurnRequest(history, newUserMessage, options);
+    const result = await withRetry(() => provider.chat({ ...request, model, generation, signal }), 'getSocraticResponse', signal);
+    return result.text;
   } catch(error) {
+    signal?.throwIfAborted();
     throw handleApiError(error, 'getSocraticResponse');
   }
 };
 
-export const generateTopicSummary = async (topic: string): Promise<TopicSummary> => {
+/**
+ * Streams the tutor's reply as text chunks. Aborting the signal ends the stream
+ * quietly so the caller can keep whatever partial text it has received.
+ * @param history The conversation so far, or the part after the memory note.
+ * @param newUserMessage The student's new message.
+ * @param signal Optional signal that stops the stream.
+ * @param options The teaching mode, memory note, practice problem, hint level and attached images for this turn.
+ */
+export async function* streamSocraticResponse(history: ChatMessage[], newUserMessage: string, signal?: AbortSignal, options: TutorTurnOptions = {}): AsyncGenerator<string> {
+  try {
+    const { provider, model, generation } = await prepareCall('tutor');
+    const request = tutorTurnRequest(history, newUserMessage, options);
+    yield* withStreamRetry(() => provider.chatStream({ ...request, model, generation, signal }), 'streamSocraticResponse', signal);
+  } catch(error) {
+    if (signal?.aborted) return;
+    throw handleApiError(error, 'streamSocraticResponse');
+  }
+}
+
+/**
+ * Streams the tutor's first message in a session opened from a wrong practice answer.
+ * The request that prompts it is never shown, so the student sees the tutor speak first.
+ * @param practice The problem, the option the student chose and the correct one.
+ * @param signal Optional signal that stops the stream.
+ * @param mode The teaching mode the session is in; Socratic when unset.
+ */
+export async function* streamPracticeOpening(practice: PracticeDiscussion, signal?: AbortSignal, mode?: TutorMode): AsyncGenerator<string> {
+  try {
+    const { provider, model, generation } = await prepareCall('tutor');
+    const { request } = buildChatRequest({ kind: 'practice-opening', mode, practice });
+    yield* withStreamRetry(() => provider.chatStream({ ...request, model, generation, signal }), 'streamPracticeOpening', signal);
+  } catch(error) {
+    if (signal?.aborted) return;
+    throw handleApiError(error, 'streamPracticeOpening');
+  }
+}
+
+/**
+ * Folds older turns into the conversation's memory note, so they no longer have to be sent.
+ * @param previousSummary The current note, if the conversation was compacted before.
+ * @param messages The turns to fold in, oldest first.
+ * @param signal Optional signal that cancels the request.
+ * @returns The updated note.
+ */
+export const summarizeConversation = async (previousSummary: string | undefined, messages: ChatMessage[], signal?: AbortSignal): Promise<GeneratedText> => {
+  try {
+    const { provider, model, generation } = await prepareCall('memory');
+    const { request, promptVersion } = buildContentRequest({ kind: 'conversation-summary', previousSummary, turns: toTutorTurns(messages) });
+    const response = await withRetry(() => provider.generateContent({ ...request, model, generation, signal }), 'summarizeConversation', signal);
+    if (!response.text.trim()) throw new ParseFailureError('The conversation summary was empty.');
+    return { text: response.text.trim(), promptVersion };
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw handleApiError(error, 'summarizeConversation');
+  }
+};
+
+/**
+ * Writes the 結束並總結 recap of a session: concepts covered, misconceptions and their
+ * corrections, formulas used, and topics to practise next.
+ * @param messages The whole conversation as shown.
+ * @param memory The session's memory note, which stands in for the turns it covers.
+ * @param signal Optional signal that cancels the request.
+ */
+export const generateSessionRecap = async (messages: ChatMessage[], memory: ConversationMemory | undefined, signal?: AbortSignal): Promise<SessionRecap> => {
+  try {
+    const call = await prepareCall('recap');
+    const task: JsonTask = {
+      kind: 'session-recap',
+      earlierNotes: memory?.summary,
+      turns: toTutorTurns(messages.slice(memory?.coveredCount ?? 0)),
+      misconceptionIds: messages.flatMap(msg => (msg.misconception ? [msg.misconception.misconceptionId] : [])),
+    };
+    const { value, issues } = await requestValidatedJson(call, task, sessionRecapValidator, signal);
+    if (issues.length > 0) throw new ParseFailureError(formatIssues(issues), issues);
+    const recap = value as Omit<SessionRecap, 'messageCount' | 'signature' | 'createdAt' | 'promptVersion'>;
+    return {
+      ...recap,
+      messageCount: messages.length,
+      signature: conversationSignature(messages),
+      createdAt: Date.now(),
+      promptVersion: buildJsonRequest(task).promptVersion,
+    };
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw handleApiError(error, 'generateSessionRecap');
+  }
+};
+
+/**
+ * Classifies which misconception, if any, the student showed in their latest turn.
+ * @param history The conversation before the student's latest message.
+ * @param studentMessage The student's latest message.
+ * @param tutorReply The tutor's reply to that message.
+ * @param signal Optional signal that cancels the request.
+ * @returns A tag whose id is from the misconception taxonomy, or 'none'.
+ */
+export const tagMisconception = async (history: ChatMessage[], studentMessage: string, tutorReply: string, signal?: AbortSignal): Promise<MisconceptionTag> => {
   try {
-    // Fix: Updated deprecated 'gemini-1.5-pro' to 'gemini-2.5-pro'.
-    const model = 'gemini-2.5-pro';
-    const prompt = `You are an expert on the Taiwanese university entrance exam (學測) for Physics. Your task is to generate a concise yet comprehensive "Topic Summary" for the topic: '${topic}'.
-          
-    The summary must be in Traditional Chinese and contain three distinct sections:
-    a. 重點觀念叮嚀 (Key Concept Reminders): Briefly explain the core principles and most common points of confusion.
-    b. 必背公式整理 (Essential Formulas): List all critical formulas related to the topic, using proper notation.
-    c. 重要題型解題技巧 (Key Problem-Solving Techniques): Provide strategic advice or steps for tackling common problem types within this topic.
-
-    Output ONLY a single valid JSON object that matches the specified schema. Do not include any other text, explanations, or markdown formatting.`;
-    
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                  keyConcepts: { type: Type.STRING, description: "Key concept reminders for the topic." },
-                  formulas: { type: Type.STRING, description: "List of essential formulas." },
-                  solvingTechniques: { type: Type.STRING, description: "Tips and techniques for solving problems." }
-              },
-              required: ["keyConcepts", "formulas", "solvingTechniques"]
-          },
-      },
-    });
-    const data = parseJsonFromResponse<TopicSummary>(response.text ?? '');
-    return data;
+    const call = await prepareCall('misconception');
+    const task: JsonTask = { kind: 'misconception-tag', history: toTutorTurns(history), studentMessage, tutorReply };
+    const { value, issues } = await requestValidatedJson(call, task, misconceptionTagValidator(misconceptionTaxonomyIds()), signal);
+    if (issues.length > 0) throw new ParseFailureError(formatIssues(issues), issues);
+    return { ...(value as MisconceptionTag), promptVersion: buildJsonRequest(task).promptVersion };
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw handleApiError(error, 'tagMisconception');
+  }
+};
+
+/**
+ * Generates the 核心總整理 for a topic, served from the response cache when a fresh copy exists.
+ * @param topic The curriculum topic.
+ * @param signal Optional signal that cancels the request.
+ * @param cache Pass `{ regenerate: true }` to skip and refresh the cached summary.
+ */
+export const generateTopicSummary = async (topic: CurriculumTopic, signal?: AbortSignal, cache?: CacheOptions): Promise<CachedResult<TopicSummary>> => {
+  try {
+    const call = await prepareCall('summary');
+    const task: JsonTask = { kind: 'topic-summary', topic };
+    const { request, promptVersion } = buildJsonRequest(task);
+
+    return await withResponseCache('summary', call.model, call.generation, promptText(request.contents), topic.label, async () => {
+      const { value, issues } = await requestValidatedJson(call, task, topicSummaryValidator, signal);
+      if (issues.length > 0) throw new ParseFailureError(formatIssues(issues), issues);
+      return { ...(value as TopicSummary), promptVersion };
+    }, cache);
   } catch(error) {
+    signal?.throwIfAborted();
     throw handleApiError(error, 'generateTopicSummary');
   }
 };
 
 
-export const generatePracticeProblem = async (topic: string, count: number): Promise<PracticeProblem[]> => {
+/**
+ * Generates practice problems for a topic, served from the response cache when a fresh set exists.
+ * @param topic The curriculum topic.
+ * @param count How many problems to ask for; fewer may come back if some fail validation.
+ * @param signal Optional signal that cancels the request.
+ * @param cache Pass `{ regenerate: true }` for a new set instead of the cached one.
+ */
+export const generatePracticeProblem = async (topic: CurriculumTopic, count: number, signal?: AbortSignal, cache?: CacheOptions): Promise<CachedResult<PracticeProblem[]>> => {
   try {
-    // Fix: Updated deprecated 'gemini-1.5-pro' to 'gemini-2.5-pro'.
-    const model = 'gemini-2.5-pro';
-    const prompt = `You are an expert on the Taiwanese university entrance exam (學測) for Physics. Your task is to generate ${count} high-quality practice problems for the topic: '${topic}'.
-          
-    For each problem, you MUST strictly adhere to the following requirements:
-    1. Create a word problem in Traditional Chinese that mirrors the style, complexity, and difficulty of the actual 學測. Prioritize question types with high appearance rates.
-    2. Provide one correct answer and three plausible, well-crafted distractors that specifically target common student misconceptions.
-    3. Write an exceptionally clear, detailed, step-by-step solution. Break down the logic into numbered steps where appropriate, explaining both the 'what' and the 'why'.
-    4. Provide a relevant, high-quality YouTube video URL. This is a NON-NEGOTIABLE requirement. Your primary source MUST be the "均一教育平台" YouTube channel. Search for a video on that channel that directly explains the core concept needed to solve the problem. Double-check that the URL is a valid, working, and publicly accessible link. Do not provide a link to a playlist or the channel's homepage; it must be a link to a specific video. If, and only if, a directly relevant video from "均一教育平台" is absolutely not available, you may then select one from another reputable Taiwanese educational channel.
-    
-    Output ONLY a single valid JSON object that is an array of problems matching the specified schema. Do not include any other text, explanations, or markdown formatting.`;
-    
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-              type: Type.ARRAY,
-              items: {
-                  type: Type.OBJECT,
-                  properties: {
-                      problem: { type: Type.STRING },
-                      options: {
-                          type: Type.OBJECT,
-                          properties: {
-                              a: { type: Type.STRING },
-                              b: { type: Type.STRING },
-                              c: { type: Type.STRING },
-                              d: { type: Type.STRING },
-                          },
-                          required: ["a", "b", "c", "d"],
-                      },
-                      correctAnswer: { type: Type.STRING },
-                      solution: { type: Type.STRING },
-                      youtubeLink: { type: Type.STRING, description: "A relevant, working YouTube URL for a concept tutorial." }
-                  },
-                  required: ["problem", "options", "correctAnswer", "solution", "youtubeLink"],
-              }
-          },
-      },
-    });
-    const data = parseJsonFromResponse<PracticeProblem[]>(response.text ?? '');
-    return data;
+    const call = await prepareCall('problems');
+    const task: JsonTask = { kind: 'practice-problems', topic, count };
+    const { request, promptVersion } = buildJsonRequest(task);
+
+    return await withResponseCache('problems', call.model, call.generation, promptText(request.contents), `${topic.label}（${count} 題）`, async () => {
+      const { value, issues } = await requestValidatedJson(call, task, practiceProblemsValidator(count), signal);
+      const withVersion = (problems: PracticeProblem[]) => problems.map(problem => ({ ...problem, promptVersion }));
+      if (issues.length === 0) return withVersion(value as PracticeProblem[]);
+      // Keep the problems that are individually valid and drop the rest, rather than failing the whole batch.
+      const validProblems = Array.isArray(value) ? value.filter(isPracticeProblem).slice(0, count) : [];
+      if (validProblems.length === 0) throw new ParseFailureError(formatIssues(issues), issues);
+      console.warn(`Dropped ${count - validProblems.length} invalid practice problem(s).`);
+      return withVersion(validProblems);
+    }, cache);
   } catch (error) {
+    signal?.throwIfAborted();
     throw handleApiError(error, 'generatePracticeProblem');
   }
 };
 
-export const analyzeDiagram = async (imageFile: File, prompt: string): Promise<string> => {
+/** What to do with a problem whose independent solve disagrees with its stated answer. */
+export type VerificationMismatchPolicy = 'regenerate' | 'flag';
+
+/**
+ * Solves a practice problem from scratch without seeing its answer key.
+ * @param problem The problem to solve; its correctAnswer and solution are withheld from the model.
+ * @param signal Optional signal that cancels the request.
+ */
+const solvePracticeProblem = async (problem: PracticeProblem, signal?: AbortSignal): Promise<{ answer: AnswerKey; reasoning: string; promptVersion: string }> => {
+  const call = await prepareCall('verification');
+  const task: JsonTask = { kind: 'problem-solve', problem: problem.problem, options: problem.options };
+  const { value, issues } = await requestValidatedJson(call, task, problemSolutionValidator, signal);
+  if (issues.length > 0) throw new ParseFailureError(formatIssues(issues), issues);
+  return { ...(value as { answer: AnswerKey; reasoning: string }), promptVersion: buildJsonRequest(task).promptVersion };
+};
+
+const verifyPracticeProblem = async (problem: PracticeProblem, signal?: AbortSignal): Promise<PracticeProblem> => {
+  const { answer, reasoning, promptVersion } = await solvePracticeProblem(problem, signal);
+  return {
+    ...problem,
+    verification: {
+      status: answer === problem.correctAnswer ? 'verified' : 'unverified',
+      verifierAnswer: answer,
+      verifierReasoning: reasoning,
+      promptVersion,
+    },
+  };
+};
+
+// A failed solve only costs this problem its check; the rest of the batch is still good.
+const verifyOrFlagPracticeProblem = async (problem: PracticeProblem, signal?: AbortSignal): Promise<PracticeProblem> => {
+  try {
+    return await verifyPracticeProblem(problem, signal);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn("Could not verify a practice problem; marking it unverified:", error);
+    return { ...problem, verification: { status: 'unverified' } };
+  }
+};
+
+/**
+ * Re-solves each problem with an independent model call and compares the result with the stated key.
+ * With the 'regenerate' policy a disagreeing problem is replaced once by a freshly generated and
+ * verified problem; whatever still disagrees is returned marked as unverified. A problem whose
+ * check or replacement fails is kept and marked unverified, so one failure never loses the batch.
+ * @param topic The topic the problems were generated for, used for replacements.
+ * @param problems The generated problems.
+ * @param onMismatch Whether to regenerate or only flag disagreeing problems.
+ * @param signal Optional signal that cancels every outstanding call.
+ */
+export const verifyPracticeProblems = async (topic: CurriculumTopic, problems: PracticeProblem[], onMismatch: VerificationMismatchPolicy, signal?: AbortSignal): Promise<PracticeProblem[]> => {
+  try {
+    return await Promise.all(problems.map(async problem => {
+      const verified = await verifyOrFlagPracticeProblem(problem, signal);
+      const disagrees = verified.verification?.status === 'unverified' && verified.verification.verifierAnswer !== undefined;
+      if (!disagrees || onMismatch === 'flag') return verified;
+      try {
+        // Always a fresh problem; a cached one could be the same faulty problem again.
+        const { value: [replacement] } = await generatePracticeProblem(topic, 1, signal, { regenerate: true });
+        return replacement ? await verifyOrFlagPracticeProblem(replacement, signal) : verified;
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn("Could not replace a disagreeing practice problem; keeping it flagged:", error);
+        return verified;
+      }
+    }));
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw handleApiError(error, 'verifyPracticeProblems');
+  }
+};
+
+export const analyzeDiagram = async (imageFile: File, prompt: string, signal?: AbortSignal): Promise<GeneratedText> => {
     try {
-      const model = 'gemini-2.5-flash-image';
-      const imagePart = await fileToGenerativePart(imageFile);
-      const fullPrompt = `You are a strict but helpful physics professor. A student has submitted a free-body diagram for analysis. Your task is to evaluate it based on fundamental physics principles, in Traditional Chinese. DO NOT give the answer or point out the error directly. Instead, use the Socratic method to ask one single, guiding question that directs the student's attention to a potential error in their diagram. Your question should encourage them to rethink their application of a specific concept (e.g., '關於正向力，你認為它應該與哪個表面垂直？'). Here is the student's question: "${prompt}" and their diagram:`;
-
-      const response = await ai.models.generateContent({
-          model,
-          contents: { parts: [{text: fullPrompt}, imagePart] },
-      });
-      return response.text ?? '';
+      const { provider, model, generation } = await prepareCall('diagram');
+      const { inlineData: image } = await fileToGenerativePart(imageFile);
+      const { request, promptVersion } = buildContentRequest({ kind: 'diagram-feedback', question: prompt, image });
+
+      const response = await withRetry(() => provider.generateContent({ ...request, model, generation, signal }), 'analyzeDiagram', signal);
+      return { text: response.text, promptVersion };
     } catch (error) {
+      signal?.throwIfAborted();
       throw handleApiError(error, 'analyzeDiagram');
     }
 };
 
 
-export const generateSimulationCode = async (prompt: string): Promise<string> => {
+/**
+ * Generates a self-contained HTML simulation, served from the response cache for a repeated request.
+ * @param prompt The scene the student described.
+ * @param signal Optional signal that cancels the request.
+ * @param cache Pass `{ regenerate: true }` to skip and refresh the cached simulation.
+ */
+export const generateSimulationCode = async (prompt: string, signal?: AbortSignal, cache?: CacheOptions): Promise<CachedResult<GeneratedText>> => {
     try {
-      // Fix: Updated deprecated 'gemini-1.5-pro' to 'gemini-2.5-pro'.
-      const model = 'gemini-2.5-pro';
-      const fullPrompt = `You are a senior web developer specializing in physics simulations. Generate a single, self-contained HTML file that includes HTML, CSS (using Tailwind classes if possible, but embed styles if necessary for canvas), and JavaScript to create an interactive simulation based on the following user request: '${prompt}'. The simulation must be visually clear and allow for user interaction if possible (e.g., sliders for parameters). The code should be well-commented to explain the physics formulas being used in the JavaScript section. Ensure the canvas is visible with a border and the whole simulation is centered.`;
-
-      const response = await ai.models.generateContent({
-          model,
-          contents: fullPrompt
-      });
-      return response.text ?? '';
+      const { provider, model, generation } = await prepareCall('simulation');
+      const { request, promptVersion } = buildContentRequest({ kind: 'simulation', request: prompt });
+
+      return await withResponseCache('simulation', model, generation, promptText(request.contents), prompt, async () => {
+        const response = await withRetry(() => provider.generateContent({ ...request, model, generation, signal }), 'generateSimulationCode', signal);
+        return { text: response.text, promptVersion };
+      }, cache);
     } catch (error) {
+      signal?.throwIfAborted();
       throw handleApiError(error, 'generateSimulationCode');
     }
 };
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { type AIPart } from './aiProvider';
+import { type ChatImage } from '../types';
+
+// Photos from a phone camera are scaled down to this size before they are attached, so a
+// conversation with several of them still fits in one proxy request and in IndexedDB.
+const MAX_IMAGE_DIMENSION = 1600;
+const MAX_UNSCALED_BYTES = 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+const readAsBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Reads a file into an inline part the model can see.
+ */
+export const fileToGenerativePart = async (file: File) => ({
+  inlineData: { data: await readAsBase64(file), mimeType: file.type },
+});
+
+export const toImagePart = (image: ChatImage): AIPart => ({ inlineData: image });
+
+export const imageDataUrl = (image: ChatImage): string => `data:${image.mimeType};base64,${image.data}`;
+
+const loadImage = (file: File): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`Could not decode ${file.name}.`));
+  };
+  image.src = url;
+});
+
+/**
+ * Reads an image for a chat message. Large images are scaled down and re-encoded as JPEG;
+ * small ones, and formats the browser cannot decode, are kept as they are.
+ * @param file A pasted, dropped, picked or camera image.
+ */
+export const readChatImage = async (file: File): Promise<ChatImage> => {
+  const original = async (): Promise<ChatImage> => (await fileToGenerativePart(file)).inlineData;
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    return original();
+  }
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  if (scale === 1 && file.size <= MAX_UNSCALED_BYTES) return original();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return original();
+  // JPEG has no transparency; a white page keeps scanned worksheets readable.
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) return original();
+  return { data: await readAsBase64(blob), mimeType: 'image/jpeg' };
+};
@@ -0,0 +1,219 @@
+import { type AIProvider, type ChatRequest, type ContentRequest, type JsonRequest, type AIResponse, type AIUsage } from './aiProvider';
+import { type MisconceptionTag, type PracticeProblem, type TopicSummary } from '../types';
+import { NO_MISCONCEPTION_ID } from '../data/misconceptions';
+
+// A short fixed delay so loading states are still visible when running offline.
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNK_MS = 40;
+
+const TUTOR_REPLIES: string[] = [
+  '很好的問題！在我們繼續之前，你能先告訴我，這個情境中物體受到哪些力嗎？',
+  '你提到了速度。那麼你認為「速度」和「加速度」之間有什麼不同呢？',
+  '讓我們回到牛頓第二定律 F = ma。在這個問題裡，淨力的方向會是哪一邊？',
+  '如果把摩擦力拿掉，你預期物體的運動會有什麼改變？為什麼？',
+  '試著想想看：系統在碰撞前後，有哪一個物理量是保持不變的？',
+];
+
+const MOCK_SUMMARY: TopicSummary = {
+  keyConcepts: '1. 系統不受外力或外力合為零時，總動量守恆。\n2. 動量是向量，計算時務必先規定正方向。\n3. 常見迷思：誤以為動能在所有碰撞中都守恆。',
+  formulas: 'p = mv\nJ = FΔt = Δp\nm₁v₁ + m₂v₂ = m₁v₁\' + m₂v₂\'',
+  solvingTechniques: '1. 先判斷系統是否受外力。\n2. 畫出碰撞前後的示意圖並標示速度方向。\n3. 列出動量守恆式，若為彈性碰撞再加上動能守恆式。',
+};
+
+const MOCK_PROBLEMS: PracticeProblem[] = [
+  {
+    problem: '質量 2 kg 的滑車以 3 m/s 向右運動，與靜止的 1 kg 滑車碰撞後黏在一起。碰撞後兩車共同速度為多少？',
+    options: { a: '1 m/s', b: '2 m/s', c: '3 m/s', d: '4.5 m/s' },
+    correctAnswer: 'b',
+    solution: '1. 碰撞過程水平方向不受外力，動量守恆。\n2. 2 × 3 + 1 × 0 = (2 + 1) v\n3. v = 6 / 3 = 2 m/s',
+    youtubeLink: 'https://www.youtube.com/@JunyiAcademy',
+  },
+  {
+    problem: '一顆 0.5 kg 的球以 4 m/s 垂直撞牆後以 4 m/s 反彈，球所受的衝量大小為多少？',
+    options: { a: '0 N·s', b: '2 N·s', c: '4 N·s', d: '8 N·s' },
+    correctAnswer: 'c',
+    solution: '1. 取反彈方向為正，Δp = 0.5 × 4 − 0.5 × (−4)\n2. Δp = 4 N·s\n3. 衝量等於動量變化，大小為 4 N·s。',
+    youtubeLink: 'https://www.youtube.com/@JunyiAcademy',
+  },
+  {
+    problem: '靜止於光滑冰面上的兩人互推，甲 60 kg、乙 40 kg。推開後甲以 2 m/s 後退，乙的速率為多少？',
+    options: { a: '1.3 m/s', b: '2 m/s', c: '3 m/s', d: '5 m/s' },
+    correctAnswer: 'c',
+    solution: '1. 推開前系統總動量為零。\n2. 60 × 2 = 40 × v\n3. v = 3 m/s，方向與甲相反。',
+    youtubeLink: 'https://www.youtube.com/@JunyiAcademy',
+  },
+  {
+    problem: '下列關於完全非彈性碰撞的敘述，何者正確？',
+    options: { a: '動量與動能皆守恆', b: '動量守恆，動能損失最多', c: '動量不守恆，動能守恆', d: '動量與動能皆不守恆' },
+    correctAnswer: 'b',
+    solution: '1. 不受外力時任何碰撞動量皆守恆。\n2. 碰撞後黏在一起時，轉為熱能與形變的動能最多。',
+    youtubeLink: 'https://www.youtube.com/@JunyiAcademy',
+  },
+  {
+    problem: '一力 10 N 作用於物體 0.3 s，物體動量變化量為多少？',
+    options: { a: '0.3 kg·m/s', b: '3 kg·m/s', c: '10 kg·m/s', d: '33 kg·m/s' },
+    correctAnswer: 'b',
+    solution: '1. 衝量 J = FΔt = 10 × 0.3 = 3 N·s\n2. 衝量等於動量變化量，故 Δp = 3 kg·m/s。',
+    youtubeLink: 'https://www.youtube.com/@JunyiAcademy',
+  },
+];
+
+// Keyword rules used to tag student turns offline.
+const MOCK_MISCONCEPTION_RULES: { keywords: string[]; tag: MisconceptionTag }[] = [
+  { keywords: ['一直推', '持續施力', '沒有力就會停'], tag: { misconceptionId: 'force-needed-for-motion', confidence: 0.8, curriculumUnit: '牛頓運動定律' } },
+  { keywords: ['加速度', '速度為零'], tag: { misconceptionId: 'velocity-acceleration-confusion', confidence: 0.7, curriculumUnit: '直線運動' } },
+  { keywords: ['比較重', '重的', '先落地'], tag: { misconceptionId: 'heavier-falls-faster', confidence: 0.75, curriculumUnit: '直線運動' } },
+  { keywords: ['抵消', '反作用力'], tag: { misconceptionId: 'action-reaction-cancel', confidence: 0.7, curriculumUnit: '牛頓運動定律' } },
+  { keywords: ['動能守恆', '碰撞'], tag: { misconceptionId: 'kinetic-energy-always-conserved', confidence: 0.65, curriculumUnit: '動量與碰撞' } },
+  { keywords: ['離心力'], tag: { misconceptionId: 'centrifugal-force-real', confidence: 0.8, curriculumUnit: '圓周運動與萬有引力' } },
+];
+
+const tagMisconceptionOffline = (text: string): MisconceptionTag => {
+  const rule = MOCK_MISCONCEPTION_RULES.find(r => r.keywords.some(keyword => text.includes(keyword)));
+  return rule?.tag ?? { misconceptionId: NO_MISCONCEPTION_ID, confidence: 0.5, curriculumUnit: '' };
+};
+
+const MOCK_MEMORY_NOTE = '- 學生已能說出物體受到的各個力。\n- 仍在釐清「速度」與「加速度」的差別。\n- 目前在討論的問題：斜面上滑塊的運動。';
+
+const MOCK_RECAP = {
+  concepts: ['物體所受合力決定加速度，而不是速度', '斜面上重力可分解為沿斜面與垂直斜面的分量'],
+  misconceptions: [{ misconception: '以為物體運動方向上一定有力在推', correction: '等速運動時合力為零，力改變的是運動狀態' }],
+  formulas: ['$F = ma$', '$mg\\sin\\theta$'],
+  nextTopics: ['牛頓三大運動定律', '等加速度運動'],
+};
+
+const MOCK_DIAGRAM_FEEDBACK = '你畫的正向力方向很有意思。想一想：正向力應該與哪一個表面垂直？在斜面上，這個方向和重力的方向一樣嗎？';
+
+const MOCK_SIMULATION = `<!DOCTYPE html>
+<html>
+<head>
+<style>
+  body { display: flex; flex-direction: column; align-items: center; font-family: sans-serif; }
+  canvas { border: 1px solid #999; margin-top: 12px; }
+</style>
+</head>
+<body>
+<h3>離線示範：斜面上的滑塊</h3>
+<label>摩擦係數 μ <input id="mu" type="range" min="0" max="0.8" step="0.05" value="0.2"></label>
+<canvas id="c" width="480" height="300"></canvas>
+<script>
+  // a = g(sinθ − μcosθ), clamped at zero when static friction holds the block.
+  const canvas = document.getElementById('c');
+  const ctx = canvas.getContext('2d');
+  const theta = Math.PI / 6;
+  const g = 9.8;
+  let s = 0, v = 0;
+  function step() {
+    const mu = Number(document.getElementById('mu').value);
+    const a = Math.max(0, g * (Math.sin(theta) - mu * Math.cos(theta)));
+    v += a / 60;
+    s += v / 60;
+    if (s > 4) { s = 0; v = 0; }
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.beginPath();
+    ctx.moveTo(40, 60); ctx.lineTo(440, 60 + 400 * Math.tan(theta)); ctx.lineTo(40, 60 + 400 * Math.tan(theta)); ctx.closePath();
+    ctx.stroke();
+    const x = 40 + s * 100 * Math.cos(theta);
+    const y = 60 + s * 100 * Math.sin(theta);
+    ctx.save(); ctx.translate(x, y); ctx.rotate(theta); ctx.fillStyle = '#ec4899'; ctx.fillRect(0, -30, 40, 30); ctx.restore();
+    requestAnimationFrame(step);
+  }
+  step();
+</script>
+</body>
+</html>`;
+
+/**
+ * Picks a stable index for a string so the same input always yields the same reply.
+ */
+const stableIndex = (input: string, length: number): number => {
+  let hash = 0;
+  for (let i = 0; i < input.length; i++) {
+    hash = (hash * 31 + input.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % length;
+};
+
+/** Waits like a network call would, rejecting with the abort reason if the request is cancelled. */
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const pickTutorReply = ({ message, history }: ChatRequest): string =>
+  TUTOR_REPLIES[stableIndex(`${history.length}:${typeof message === 'string' ? message : JSON.stringify(message)}`, TUTOR_REPLIES.length)];
+
+// About four characters per token, so offline runs still show up on the usage dashboard.
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateUsage = (request: ChatRequest | ContentRequest, reply: string): AIUsage => {
+  const prompt = 'message' in request
+    ? request.systemInstruction + JSON.stringify(request.history) + JSON.stringify(request.message)
+    : JSON.stringify(request.contents);
+  return { promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(reply) };
+};
+
+const respond = async (text: string, request: ChatRequest | ContentRequest): Promise<AIResponse> => {
+  await wait(MOCK_LATENCY_MS, request.signal);
+  return { text, usage: estimateUsage(request, text) };
+};
+
+/**
+ * Creates a deterministic, fully offline provider that returns canned tutor replies,
+ * summaries, problems, diagram feedback and simulations.
+ */
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+
+  chat(request: ChatRequest): Promise<AIResponse> {
+    return respond(pickTutorReply(request), request);
+  },
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<string, AIUsage | undefined> {
+    const reply = pickTutorReply(request);
+    await wait(MOCK_LATENCY_MS);
+    // Emit a few characters at a time to mimic token streaming.
+    for (let i = 0; i < reply.length; i += 3) {
+      if (request.signal?.aborted) return estimateUsage(request, reply.slice(0, i));
+      yield reply.slice(i, i + 3);
+      await wait(MOCK_STREAM_CHUNK_MS);
+    }
+    return estimateUsage(request, reply);
+  },
+
+  generateJson(request: JsonRequest): Promise<AIResponse> {
+    const { feature, meta } = request;
+    if (feature === 'misconception') {
+      return respond(JSON.stringify(tagMisconceptionOffline(meta?.input ?? '')), request);
+    }
+    if (feature === 'verification') {
+      // The offline verifier agrees with the canned key; unknown problems get a fixed answer.
+      const known = MOCK_PROBLEMS.find(p => p.problem === meta?.input);
+      return respond(JSON.stringify({ answer: known?.correctAnswer ?? 'a', reasoning: '離線驗算：依題意列式計算。' }), request);
+    }
+    if (feature === 'summary') {
+      return respond(JSON.stringify(MOCK_SUMMARY), request);
+    }
+    if (feature === 'recap') {
+      return respond(JSON.stringify(MOCK_RECAP), request);
+    }
+    const count = Math.max(1, meta?.count ?? 1);
+    const problems = Array.from({ length: count }, (_, i) => MOCK_PROBLEMS[i % MOCK_PROBLEMS.length]);
+    return respond(JSON.stringify(problems), request);
+  },
+
+  generateContent(request: ContentRequest): Promise<AIResponse> {
+    const text = request.feature === 'simulation' ? MOCK_SIMULATION
+      : request.feature === 'memory' ? MOCK_MEMORY_NOTE
+      : MOCK_DIAGRAM_FEEDBACK;
+    return respond(text, request);
+  },
+});
@@ -0,0 +1,104 @@
+import { type AIProvider, type AIResponse, type AIUsage, type ChatRequest, type ContentRequest, type JsonRequest } from './aiProvider';
+import { type ProxyErrorBody, type ProxyOperation, type ProxyRequestBody, type ProxyStreamLine, type ProxyUsageReport, PROXY_USAGE_PATH, findProxyRoute } from './proxyRoutes';
+import { type AIServiceError, HTTP_STATUS_BY_KIND, RateLimitedError, classifyError, createAIServiceError } from './aiErrors';
+
+/**
+ * Turns an error response into the typed error the proxy reported. Responses that
+ * did not come from the proxy itself (e.g. a gateway page) are classified by status.
+ */
+const toError = async (response: Response): Promise<AIServiceError> => {
+  const retryAfterMs = Number(response.headers.get('Retry-After')) * 1000 || undefined;
+  try {
+    const { error } = await response.json() as ProxyErrorBody;
+    if (error.kind in HTTP_STATUS_BY_KIND) {
+      return createAIServiceError(error.kind, error.message, error.retryAfterSeconds !== undefined ? error.retryAfterSeconds * 1000 : retryAfterMs);
+    }
+  } catch {
+    // Not a proxy error body; fall back to the status below.
+  }
+  const detail = `[${response.status}] ${response.statusText}`;
+  return response.status === 429
+    ? new RateLimitedError(detail, retryAfterMs)
+    : classifyError(Object.assign(new Error(detail), { status: response.status }));
+};
+
+/**
+ * Creates a provider that forwards every call to the backend proxy, so the API key
+ * stays on the server.
+ * @param baseUrl The proxy origin; empty for the same origin as the app.
+ */
+export const createProxyProvider = (baseUrl = ''): AIProvider => {
+  const post = async (operation: ProxyOperation, request: ChatRequest | ContentRequest): Promise<Response> => {
+    const route = findProxyRoute(operation, request.feature);
+    if (!route) {
+      throw new Error(`No proxy route serves ${operation} for feature '${request.feature}'.`);
+    }
+    // The proxy builds the prompt itself from the task, so only the task and the model settings are sent.
+    const { task, model, generation, signal } = request;
+    const body: ProxyRequestBody = { task, model, generation };
+    const response = await fetch(`${baseUrl}${route.path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) throw await toError(response);
+    return response;
+  };
+
+  return {
+    id: 'proxy',
+
+    async chat(request: ChatRequest): Promise<AIResponse> {
+      const response = await post('chat', request);
+      return await response.json() as AIResponse;
+    },
+
+    async *chatStream(request: ChatRequest): AsyncGenerator<string, AIUsage | undefined> {
+      const response = await post('chatStream', request);
+      if (!response.body) return undefined;
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      let usage: AIUsage | undefined;
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          // A network chunk can end mid-line; keep the partial line for the next read.
+          const lines = (buffered + decoder.decode(value, { stream: true })).split('\n');
+          buffered = lines.pop() ?? '';
+          for (const line of lines) {
+            if (!line) continue;
+            const parsed = JSON.parse(line) as ProxyStreamLine;
+            if ('usage' in parsed) usage = parsed.usage;
+            else if (parsed.text) yield parsed.text;
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
+      return usage;
+    },
+
+    async generateJson(request: JsonRequest): Promise<AIResponse> {
+      const response = await post('generateJson', request);
+      return await response.json() as AIResponse;
+    },
+
+    async generateContent(request: ContentRequest): Promise<AIResponse> {
+      const response = await post('generateContent', request);
+      return await response.json() as AIResponse;
+    },
+  };
+};
+
+/**
+ * Reads the usage the proxy has metered for all its clients, with the budgets it enforces.
+ * @param baseUrl The proxy origin; empty for the same origin as the app.
+ */
+export const fetchProxyUsage = async (baseUrl = ''): Promise<ProxyUsageReport> => {
+  const response = await fetch(`${baseUrl}${PROXY_USAGE_PATH}`);
+  if (!response.ok) throw await toError(response);
+  return await response.json() as ProxyUsageReport;
+};
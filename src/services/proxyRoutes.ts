@@ -0,0 +1,74 @@
+import { type AIFeature, type AIProvider, type AIUsage, type GenerationOptions } from './aiProvider';
+import { type AITask } from './aiTasks';
+import { type AIErrorKind } from './aiErrors';
+import { type BudgetSettings, type UsageRow } from './usage';
+
+/** The provider method a proxy route forwards to. */
+export type ProxyOperation = keyof Omit<AIProvider, 'id'>;
+
+export interface ProxyRoute {
+  path: string;
+  operation: ProxyOperation;
+  /** The features allowed on this route; requests for any other feature are rejected. */
+  features: AIFeature[];
+}
+
+/**
+ * The typed routes of the backend proxy, shared by the browser client and the server.
+ */
+export const PROXY_ROUTES: ProxyRoute[] = [
+  { path: '/api/tutor/chat', operation: 'chat', features: ['tutor'] },
+  { path: '/api/tutor/chat/stream', operation: 'chatStream', features: ['tutor'] },
+  { path: '/api/tutor/memory', operation: 'generateContent', features: ['memory'] },
+  { path: '/api/tutor/recap', operation: 'generateJson', features: ['recap'] },
+  { path: '/api/tutor/misconception', operation: 'generateJson', features: ['misconception'] },
+  { path: '/api/problems', operation: 'generateJson', features: ['problems', 'verification'] },
+  { path: '/api/summary', operation: 'generateJson', features: ['summary'] },
+  { path: '/api/diagram', operation: 'generateContent', features: ['diagram'] },
+  { path: '/api/simulation', operation: 'generateContent', features: ['simulation'] },
+];
+
+/** Answers GET requests with the proxy's ProxyUsageReport. */
+export const PROXY_USAGE_PATH = '/api/usage';
+
+/**
+ * Finds the route that serves an operation for a feature.
+ */
+export const findProxyRoute = (operation: ProxyOperation, feature: AIFeature): ProxyRoute | undefined =>
+  PROXY_ROUTES.find(route => route.operation === operation && route.features.includes(feature));
+
+/**
+ * The JSON body of every proxy request. The server builds the prompt and response schema
+ * from the task; the model must be one the server allows.
+ */
+export interface ProxyRequestBody {
+  task: AITask;
+  model: string;
+  generation?: GenerationOptions;
+}
+
+/**
+ * One line of a streamed chat reply. The stream is newline-delimited JSON: text chunks,
+ * then a final usage line when the backend reported token counts.
+ */
+export type ProxyStreamLine = { text: string } | { usage: AIUsage };
+
+/** The JSON body of every error response from the proxy. */
+export interface ProxyErrorBody {
+  error: {
+    status: number;
+    message: string;
+    /** How the client should classify the failure. */
+    kind: AIErrorKind;
+    /** Set on rate-limited responses, mirroring the Retry-After header. */
+    retryAfterSeconds?: number;
+  };
+}
+
+/** The usage the proxy has metered for all its clients, and the daily budgets it enforces. */
+export interface ProxyUsageReport {
+  /** The proxy's calendar day, YYYY-MM-DD; budgets reset at its midnight. */
+  today: string;
+  rows: UsageRow[];
+  budget: BudgetSettings;
+}
@@ -0,0 +1,149 @@
+import { dbClear, dbDelete, dbGet, dbGetAll, dbPut } from './db';
+import { getSettings } from './settingsStore';
+import { hashString } from './hash';
+import { type GenerationOptions } from './aiProvider';
+
+/** The features whose responses are cached. Chat and diagram feedback are always fresh. */
+export type CachedFeature = 'summary' | 'problems' | 'simulation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long a cached response stays valid. Problems expire sooner so students see new ones. */
+export const CACHE_TTL_MS: Record<CachedFeature, number> = {
+  summary: 30 * DAY_MS,
+  problems: 7 * DAY_MS,
+  simulation: 30 * DAY_MS,
+};
+
+export interface CacheEntry {
+  /** `${feature}:${model}:${temperature}:${maxOutputTokens}:${hash of the prompt}` */
+  id: string;
+  feature: CachedFeature;
+  model: string;
+  /** The full prompt, compared on lookup so a hash collision can never return the wrong response. */
+  prompt: string;
+  /** A short human-readable description for the settings screen, e.g. the topic. */
+  label: string;
+  value: unknown;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+  sizeBytes: number;
+}
+
+export interface CacheOptions {
+  /** Skips the cached response and replaces it with a fresh one. */
+  regenerate?: boolean;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  /** When the response was generated, if it was served from the cache. */
+  cachedAt?: number;
+}
+
+// Sampling settings change the response as much as the prompt does, so they are part of the key.
+const cacheKey = (feature: CachedFeature, model: string, { temperature, maxOutputTokens }: GenerationOptions, prompt: string): string =>
+  `${feature}:${model}:${temperature ?? 'default'}:${maxOutputTokens ?? 'default'}:${hashString(prompt)}`;
+
+/**
+ * Lists every cache entry, most recently used first.
+ */
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await dbGetAll<CacheEntry>('responseCache');
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const deleteCacheEntry = (id: string): Promise<void> => dbDelete('responseCache', id);
+
+export const clearResponseCache = (): Promise<void> => dbClear('responseCache');
+
+/**
+ * Drops expired entries, then the least recently used ones until the cache fits in maxBytes.
+ */
+const evict = async (maxBytes: number): Promise<void> => {
+  const now = Date.now();
+  const entries = await listCacheEntries();
+  let total = 0;
+  for (const entry of entries) {
+    if (entry.expiresAt <= now || total + entry.sizeBytes > maxBytes) {
+      await deleteCacheEntry(entry.id);
+    } else {
+      total += entry.sizeBytes;
+    }
+  }
+};
+
+const readEntry = async (id: string, prompt: string): Promise<CacheEntry | undefined> => {
+  const entry = await dbGet<CacheEntry>('responseCache', id);
+  if (!entry || entry.prompt !== prompt) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    await deleteCacheEntry(id);
+    return undefined;
+  }
+  return entry;
+};
+
+const writeEntry = async (entry: Omit<CacheEntry, 'sizeBytes'>, maxBytes: number): Promise<void> => {
+  const sizeBytes = new Blob([JSON.stringify(entry)]).size;
+  // A response larger than the whole cache is not worth evicting everything else for.
+  if (sizeBytes > maxBytes) return;
+  await dbPut('responseCache', { ...entry, sizeBytes });
+  await evict(maxBytes);
+};
+
+/**
+ * Serves a response from the cache when a fresh one exists for the same feature, model,
+ * generation settings and prompt; otherwise produces it and stores it. The cache is an optimisation only: if IndexedDB
+ * fails, the response is simply produced again.
+ * @param feature The feature the response belongs to; it decides the TTL.
+ * @param model The model that produces the response.
+ * @param generation The temperature and output limit the response is produced with.
+ * @param prompt The exact prompt; any change to it is a different cache entry.
+ * @param label A short description shown on the settings screen.
+ * @param produce Generates the response on a miss.
+ * @param options Pass `regenerate` to bypass and refresh the cached response.
+ */
+export const withResponseCache = async <T>(
+  feature: CachedFeature,
+  model: string,
+  generation: GenerationOptions,
+  prompt: string,
+  label: string,
+  produce: () => Promise<T>,
+  options: CacheOptions = {},
+): Promise<CachedResult<T>> => {
+  const { cache: settings, fixtures } = await getSettings();
+  // Recording and replaying fixtures must see every call, so the cache stands aside.
+  if (!settings.enabled || fixtures.mode !== 'off') return { value: await produce() };
+
+  const id = cacheKey(feature, model, generation, prompt);
+  if (!options.regenerate) {
+    try {
+      const entry = await readEntry(id, prompt);
+      if (entry) {
+        await dbPut('responseCache', { ...entry, lastUsedAt: Date.now() });
+        return { value: entry.value as T, cachedAt: entry.createdAt };
+      }
+    } catch (error) {
+      console.warn("Response cache lookup failed:", error);
+    }
+  }
+
+  const value = await produce();
+  const now = Date.now();
+  try {
+    await writeEntry({ id, feature, model, prompt, label, value, createdAt: now, lastUsedAt: now, expiresAt: now + CACHE_TTL_MS[feature] }, settings.maxBytes);
+  } catch (error) {
+    console.warn("Response cache write failed:", error);
+  }
+  return { value };
+};
+
+/**
+ * Applies a new size limit straight away instead of on the next write.
+ */
+export const trimResponseCache = async (): Promise<void> => {
+  const { cache } = await getSettings();
+  await evict(cache.maxBytes);
+};
@@ -0,0 +1,115 @@
+import { type AIServiceError, RateLimitedError, classifyError } from './aiErrors';
+
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  /** The delay before the first retry; each later retry doubles it. */
+  baseDelayMs: number;
+  /** The cap on a computed backoff delay. */
+  maxDelayMs: number;
+  /**
+   * The longest retry-after hint we wait out automatically. A longer hint fails
+   * straight away so the UI can show the countdown instead of hanging.
+   */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  maxRetryAfterMs: 30000,
+};
+
+let retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS;
+
+/**
+ * Overrides the retry options for every AI request, e.g. `{ maxRetries: 0 }` in tests.
+ */
+export const configureRetry = (options: Partial<RetryOptions>): void => {
+  retryOptions = { ...retryOptions, ...options };
+};
+
+export const getRetryOptions = (): RetryOptions => retryOptions;
+
+/**
+ * How long to wait before retry number `attempt` (0-based), or null to give up.
+ * Honours the server's retry-after hint and otherwise backs off exponentially
+ * with up to 20% jitter, so many tabs do not retry in lockstep.
+ */
+export const retryDelayMs = (error: AIServiceError, attempt: number, options: RetryOptions = retryOptions): number | null => {
+  if (!error.retryable || attempt >= options.maxRetries) return null;
+  if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= options.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+  const backoff = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+  return Math.round(backoff * (1 + Math.random() * 0.2));
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs an operation, retrying transient failures (rate limits, outages and network
+ * errors) with exponential backoff. Responses that could not be parsed are not retried
+ * here; the JSON services ask the model to repair them instead.
+ * @param operation The request to run; it is called again for every attempt.
+ * @param context Names the operation in the logs.
+ * @param signal Stops waiting between attempts.
+ * @returns The operation's result; otherwise throws the last error as an AIServiceError.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, context: string, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const error = classifyError(e);
+      const delay = retryDelayMs(error, attempt);
+      if (delay === null) throw error;
+      console.warn(`${context} failed (${error.kind}), retrying in ${delay} ms (retry ${attempt + 1}/${retryOptions.maxRetries}).`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/**
+ * Like withRetry for a streamed reply. A failure is only retried before the first
+ * chunk arrives; once text has been shown, restarting would repeat it.
+ * @param start Starts the stream; it is called again for every attempt.
+ * @param context Names the operation in the logs.
+ * @param signal Stops waiting between attempts.
+ */
+export async function* withStreamRetry<T>(start: () => AsyncGenerator<T>, context: string, signal?: AbortSignal): AsyncGenerator<T> {
+  for (let attempt = 0; ; attempt++) {
+    let started = false;
+    try {
+      for await (const chunk of start()) {
+        started = true;
+        yield chunk;
+      }
+      return;
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const error = classifyError(e);
+      const delay = started ? null : retryDelayMs(error, attempt);
+      if (delay === null) throw error;
+      console.warn(`${context} failed (${error.kind}), retrying in ${delay} ms (retry ${attempt + 1}/${retryOptions.maxRetries}).`);
+      await sleep(delay, signal);
+    }
+  }
+}
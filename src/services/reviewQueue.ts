@@ -0,0 +1,126 @@
+import { dbDelete, dbGet, dbGetAll, dbPut } from './db';
+import { hashString } from './hash';
+import { localDay } from './usage';
+import { type AnswerKey, type PracticeProblem } from '../types';
+
+/**
+ * A spaced-repetition queue of answered practice problems, scheduled with SM-2. Everything
+ * lives in IndexedDB, so reviewing works offline.
+ */
+
+/** How well the student recalled a problem, on the SM-2 scale from 0 (blank) to 5 (effortless). */
+export type RecallQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewAttempt {
+  at: number;
+  chosenAnswer: AnswerKey;
+  correct: boolean;
+  /** The self-rated recall; unset for answers given in the problem generator. */
+  quality?: RecallQuality;
+}
+
+export interface ReviewItem {
+  /** A hash of the problem text and options, so the same problem is kept once. */
+  id: string;
+  /** The problem as shown, with the catalogue videos found for its topic at the time. */
+  problem: PracticeProblem;
+  topic: string;
+  attempts: ReviewAttempt[];
+  /** Consecutive successful recalls. */
+  repetitions: number;
+  intervalDays: number;
+  easeFactor: number;
+  /** The local day the problem is next due, as YYYY-MM-DD. */
+  dueDay: string;
+}
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// The first answer is not self-rated; a correct one counts as a good recall, a wrong one as a failed recall.
+const FIRST_ANSWER_QUALITY: Record<'correct' | 'wrong', RecallQuality> = { correct: 4, wrong: 1 };
+
+const addDays = (day: string, days: number): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return localDay(new Date(year, month - 1, date + days).getTime());
+};
+
+const reviewId = (problem: PracticeProblem): string => hashString(JSON.stringify([problem.problem, problem.options]));
+
+/**
+ * Applies one SM-2 step: a recall of 3 or more grows the interval (1 day, 6 days, then by
+ * the ease factor); a lower one starts the problem over at 1 day. The ease factor moves with
+ * every rating and never drops below 1.3.
+ */
+export const scheduleReview = (item: Pick<ReviewItem, 'repetitions' | 'intervalDays' | 'easeFactor'>, quality: RecallQuality, today: string = localDay()): Pick<ReviewItem, 'repetitions' | 'intervalDays' | 'easeFactor' | 'dueDay'> => {
+  const easeFactor = Math.max(MIN_EASE_FACTOR, item.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  if (quality < 3) {
+    return { repetitions: 0, intervalDays: 1, easeFactor, dueDay: addDays(today, 1) };
+  }
+  const intervalDays = item.repetitions === 0 ? 1 : item.repetitions === 1 ? 6 : Math.round(item.intervalDays * item.easeFactor);
+  return { repetitions: item.repetitions + 1, intervalDays, easeFactor, dueDay: addDays(today, intervalDays) };
+};
+
+/**
+ * Stores a problem the student answered in the problem generator. A problem that is already
+ * queued, e.g. shown again from the response cache, only gets the attempt logged: answering
+ * it right after generating is not a spaced review, so its schedule is left alone.
+ * @param problem The problem as shown.
+ * @param topic The topic label it was generated for.
+ * @param chosenAnswer The option the student picked.
+ */
+export const recordAnswer = async (problem: PracticeProblem, topic: string, chosenAnswer: AnswerKey): Promise<void> => {
+  const correct = chosenAnswer === problem.correctAnswer;
+  const attempt: ReviewAttempt = { at: Date.now(), chosenAnswer, correct };
+  const id = reviewId(problem);
+  const existing = await dbGet<ReviewItem>('reviews', id);
+  if (existing) {
+    await dbPut('reviews', { ...existing, attempts: [...existing.attempts, attempt] });
+    return;
+  }
+  const item: ReviewItem = {
+    id,
+    problem,
+    topic,
+    attempts: [attempt],
+    ...scheduleReview({ repetitions: 0, intervalDays: 0, easeFactor: INITIAL_EASE_FACTOR }, FIRST_ANSWER_QUALITY[correct ? 'correct' : 'wrong']),
+  };
+  await dbPut('reviews', item);
+};
+
+// A wrong answer is a failed recall however easy it felt, so it is scored as 忘記了 whatever the rating.
+const WRONG_ANSWER_QUALITY: RecallQuality = 1;
+
+/**
+ * Records a review and reschedules the problem.
+ * @param item The problem reviewed.
+ * @param chosenAnswer The option the student picked this time.
+ * @param rating The student's own rating of how well they recalled it; ignored when the answer is wrong.
+ * @returns The rescheduled item.
+ */
+export const rateReview = async (item: ReviewItem, chosenAnswer: AnswerKey, rating: RecallQuality): Promise<ReviewItem> => {
+  const correct = chosenAnswer === item.problem.correctAnswer;
+  const quality = correct ? rating : WRONG_ANSWER_QUALITY;
+  const next: ReviewItem = {
+    ...item,
+    attempts: [...item.attempts, { at: Date.now(), chosenAnswer, correct, quality }],
+    ...scheduleReview(item, quality),
+  };
+  await dbPut('reviews', next);
+  return next;
+};
+
+export const listReviews = (): Promise<ReviewItem[]> => dbGetAll<ReviewItem>('reviews');
+
+/**
+ * Lists the problems due on a day or earlier: the most overdue first, then the hardest.
+ * @param day The day to review, as YYYY-MM-DD; today when omitted.
+ */
+export const listDueReviews = async (day: string = localDay()): Promise<ReviewItem[]> => {
+  const items = await listReviews();
+  return items
+    .filter(item => item.dueDay <= day)
+    .sort((a, b) => a.dueDay.localeCompare(b.dueDay) || a.easeFactor - b.easeFactor);
+};
+
+export const deleteReview = (id: string): Promise<void> => dbDelete('reviews', id);
@@ -0,0 +1,84 @@
+import { Marked } from 'marked';
+import katex from 'katex';
+
+// Display math ($$...$$ or \[...\]) first, then inline math (\(...\) or $...$ on a single line).
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^$\n]+?)\$/g;
+// Formulas are swapped for private-use characters around a per-call nonce, which neither
+// Markdown touches nor the input can predict.
+const PLACEHOLDER_START = '\uE000';
+const PLACEHOLDER_END = '\uE001';
+
+/** Escapes plain text, such as a user-chosen title, for use in HTML. */
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Links may only leave for the web or an email client; images may only be inline data or https.
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const IMAGE_PROTOCOLS = ['https:'];
+
+/**
+ * Whether a URL is absolute and uses one of the allowed protocols. Relative URLs and
+ * anything the URL parser rejects, such as `javascript&#58;…`, count as unsafe.
+ */
+const hasAllowedProtocol = (url: string, protocols: string[]): boolean => {
+  try {
+    return protocols.includes(new URL(url.trim()).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isSafeImageSource = (url: string): boolean =>
+  /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i.test(url.trim()) || hasAllowedProtocol(url, IMAGE_PROTOCOLS);
+
+// Model output and student text are untrusted: raw HTML in the Markdown is shown as text, and
+// links or images with any other URL scheme (e.g. `javascript:`) keep only their text.
+// Returning false hands a safe link or image to marked's own renderer, which escapes it.
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, tokens }) {
+      return hasAllowedProtocol(href, LINK_PROTOCOLS) ? false : this.parser.parseInline(tokens);
+    },
+    image({ href, text }) {
+      return isSafeImageSource(href) ? false : escapeHtml(text);
+    },
+  },
+});
+
+const renderMath = (tex: string, displayMode: boolean): string =>
+  katex.renderToString(tex.trim(), { displayMode, throwOnError: false, strict: 'ignore', output: 'html' });
+
+/**
+ * Renders model text that mixes Markdown and LaTeX math into an HTML string.
+ * Math is cut out before Markdown parsing so that characters such as `_` and `*`
+ * inside formulas are not mistaken for emphasis.
+ * @param text The raw text, e.g. a tutor reply or a problem solution.
+ * @returns Sanitised HTML ready for `dangerouslySetInnerHTML` or the PDF export.
+ */
+export const renderRichText = (text: string): string => {
+  const formulas: string[] = [];
+  const nonce = Math.random().toString(36).slice(2);
+  const withPlaceholders = text.replace(MATH_PATTERN, (_match, display, bracketDisplay, parenInline, dollarInline) => {
+    const isDisplay = display !== undefined || bracketDisplay !== undefined;
+    formulas.push(renderMath(display ?? bracketDisplay ?? parenInline ?? dollarInline, isDisplay));
+    return `${PLACEHOLDER_START}${nonce}:${formulas.length - 1}${PLACEHOLDER_END}`;
+  });
+  const html = markdown.parse(withPlaceholders, { async: false });
+  const placeholder = new RegExp(`${PLACEHOLDER_START}${nonce}:(\\d+)${PLACEHOLDER_END}`, 'g');
+  // Anything that only looks like a placeholder is left as it was.
+  return html.replace(placeholder, (match, index) => formulas[Number(index)] ?? match);
+};
+
+/**
+ * Renders a short single-line string, such as a multiple-choice option, without wrapping it in a paragraph.
+ */
+export const renderInlineRichText = (text: string): string => {
+  const html = renderRichText(text).trim();
+  const paragraph = /^<p>([\s\S]*)<\/p>$/.exec(html);
+  return paragraph && !paragraph[1].includes('<p>') ? paragraph[1] : html;
+};
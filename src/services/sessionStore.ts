@@ -0,0 +1,132 @@
+import { type ChatMessage, type ConversationMemory, type TutorSession } from '../types';
+import { dbDelete, dbGet, dbGetAll, dbPut } from './db';
+import { hashString } from './hash';
+
+export const DEFAULT_SESSION_TITLE = '新對話';
+const AUTO_TITLE_LENGTH = 20;
+
+// Once this many messages follow the memory note, the older ones are folded into it...
+export const COMPACTION_THRESHOLD = 20;
+// ...keeping this many of the latest messages verbatim.
+export const RECENT_MESSAGES_KEPT = 8;
+
+/**
+ * Creates a new, unsaved tutor session.
+ * @param initialMessages The messages the session starts with, e.g. the tutor's greeting.
+ */
+export const createSession = (initialMessages: ChatMessage[]): TutorSession => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_SESSION_TITLE,
+    messages: initialMessages,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Derives a title from the first student message when the session still has the default title.
+ */
+export const withAutoTitle = (session: TutorSession): TutorSession => {
+  if (session.title !== DEFAULT_SESSION_TITLE) return session;
+  const firstUserMessage = session.messages.find(msg => msg.role === 'user' && !msg.hintLevel && msg.text.trim());
+  if (!firstUserMessage) return session;
+  const text = firstUserMessage.text.trim();
+  const title = text.length > AUTO_TITLE_LENGTH ? `${text.slice(0, AUTO_TITLE_LENGTH)}…` : text;
+  return { ...session, title };
+};
+
+/**
+ * What the tutor model is shown of a session: the memory note, if any, and the messages after it.
+ */
+export const modelContext = (session: TutorSession): { memory?: ConversationMemory; recent: ChatMessage[] } => ({
+  memory: session.memory,
+  recent: session.messages.slice(session.memory?.coveredCount ?? 0),
+});
+
+/**
+ * The messages to fold into the memory note next, or none while the session is below the threshold.
+ */
+export const messagesToCompact = (session: TutorSession): ChatMessage[] => {
+  const { recent } = modelContext(session);
+  return recent.length > COMPACTION_THRESHOLD ? recent.slice(0, recent.length - RECENT_MESSAGES_KEPT) : [];
+};
+
+/**
+ * All versions of what follows messages[at - 1], including the shown one, and which is shown.
+ */
+const versionsAfter = (messages: ChatMessage[], at: number): { versions: ChatMessage[][]; index: number } => {
+  const branches = messages[at - 1].branches;
+  const index = branches?.index ?? 0;
+  const versions = [...(branches?.others ?? [])];
+  versions.splice(index, 0, messages.slice(at));
+  return { versions, index };
+};
+
+const showVersion = (messages: ChatMessage[], at: number, versions: ChatMessage[][], index: number): ChatMessage[] => [
+  ...messages.slice(0, at - 1),
+  { ...messages[at - 1], branches: { others: versions.filter((_, i) => i !== index), index } },
+  ...versions[index],
+];
+
+/**
+ * Replaces the messages from `at` on with a new version and shows it. The replaced messages
+ * are kept as another version, so the student can go back to them.
+ * @param messages The shown conversation.
+ * @param at The index the new version starts at; at least 1, since the versions hang off the message before.
+ * @param version The messages of the new version, e.g. an edited turn and its reply.
+ */
+export const addBranch = (messages: ChatMessage[], at: number, version: ChatMessage[]): ChatMessage[] => {
+  const { versions } = versionsAfter(messages, at);
+  return showVersion(messages, at, [...versions, version], versions.length);
+};
+
+/**
+ * Shows another version of what follows messages[at - 1].
+ * @param index The version to show, 0-based, among all versions at that point.
+ */
+export const selectBranch = (messages: ChatMessage[], at: number, index: number): ChatMessage[] => {
+  const { versions } = versionsAfter(messages, at);
+  return index >= 0 && index < versions.length ? showVersion(messages, at, versions, index) : messages;
+};
+
+/**
+ * Identifies the shown run of messages by what was said, so a recap can tell whether the
+ * conversation it covers is still the one on screen. Another branch of the same length
+ * has a different signature; tags added to a message later do not change it.
+ */
+export const conversationSignature = (messages: ChatMessage[]): string =>
+  hashString(JSON.stringify(messages.map(({ role, text, hintLevel, images }) => [role, text, hintLevel ?? 0, images?.length ?? 0])));
+
+/**
+ * Lists all saved sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<TutorSession[]> => {
+  const sessions = await dbGetAll<TutorSession>('sessions');
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = (id: string): Promise<TutorSession | undefined> => dbGet<TutorSession>('sessions', id);
+
+export const saveSession = (session: TutorSession): Promise<void> => dbPut('sessions', session);
+
+export const deleteSession = (id: string): Promise<void> => dbDelete('sessions', id);
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, title: title.trim() || DEFAULT_SESSION_TITLE, updatedAt: Date.now() });
+};
+
+/**
+ * Filters sessions whose title or message text contains the query (case-insensitive).
+ */
+export const searchSessions = (sessions: TutorSession[], query: string): TutorSession[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+  return sessions.filter(session =>
+    session.title.toLowerCase().includes(needle) ||
+    session.messages.some(msg => msg.text.toLowerCase().includes(needle))
+  );
+};
@@ -0,0 +1,137 @@
+import { dbGet, dbPut } from './db';
+import { type AIFeature } from './aiProvider';
+import { type HintLevel } from '../types';
+import { type BudgetSettings } from './usage';
+
+export interface CacheSettings {
+  enabled: boolean;
+  /** The cache evicts least recently used entries beyond this size. */
+  maxBytes: number;
+}
+
+/** The model and sampling options one feature runs with. Unset options use the model's defaults. */
+export interface ModelConfig {
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface AISettings {
+  /** A Gemini API key entered at runtime. When set, the app calls Gemini directly with it instead of the proxy. */
+  apiKey: string;
+  models: Record<AIFeature, ModelConfig>;
+}
+
+export interface TutorSettings {
+  /**
+   * The highest rung of the hint ladder the tutor offers. A preference on this device,
+   * not an enforced limit: anyone using the browser can change it.
+   */
+  maxHintLevel: HintLevel;
+}
+
+export interface CatalogueSettings {
+  /** The SEED_VERSION last added to the video catalogue; 0 before the first seeding. */
+  seedVersion: number;
+}
+
+/** 'record' saves every AI call to a fixture; 'replay' answers every call from a loaded fixture. */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureSettings {
+  mode: FixtureMode;
+  /** In replay, answer a request that was never recorded with the next entry for the same feature. */
+  fallbackToNext: boolean;
+}
+
+export interface AppSettings {
+  cache: CacheSettings;
+  ai: AISettings;
+  budget: BudgetSettings;
+  fixtures: FixtureSettings;
+  tutor: TutorSettings;
+  catalogue: CatalogueSettings;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  cache: {
+    enabled: true,
+    maxBytes: 5 * 1024 * 1024,
+  },
+  ai: {
+    apiKey: '',
+    models: {
+      tutor: { model: 'gemini-2.5-flash' },
+      memory: { model: 'gemini-2.5-flash' },
+      recap: { model: 'gemini-2.5-flash' },
+      misconception: { model: 'gemini-2.5-flash' },
+      summary: { model: 'gemini-2.5-pro' },
+      problems: { model: 'gemini-2.5-pro' },
+      verification: { model: 'gemini-2.5-pro' },
+      diagram: { model: 'gemini-2.5-flash-image' },
+      simulation: { model: 'gemini-2.5-pro' },
+    },
+  },
+  budget: {
+    featureDailyTokens: {},
+  },
+  fixtures: {
+    mode: 'off',
+    fallbackToNext: false,
+  },
+  tutor: {
+    maxHintLevel: 4,
+  },
+  catalogue: {
+    seedVersion: 0,
+  },
+};
+
+// All settings live in one record of the settings store.
+const SETTINGS_KEY = 'app';
+
+let loaded: AppSettings | null = null;
+
+/**
+ * Returns the saved settings merged over the defaults, so settings added later get their default values.
+ */
+export const getSettings = async (): Promise<AppSettings> => {
+  if (!loaded) {
+    try {
+      const saved = await dbGet<AppSettings & { id: string }>('settings', SETTINGS_KEY);
+      const defaultModels = DEFAULT_SETTINGS.ai.models;
+      loaded = {
+        cache: { ...DEFAULT_SETTINGS.cache, ...saved?.cache },
+        ai: {
+          ...DEFAULT_SETTINGS.ai,
+          ...saved?.ai,
+          // Merged per feature, so a feature added later still gets its default model.
+          models: Object.fromEntries(
+            (Object.keys(defaultModels) as AIFeature[]).map(feature => [feature, { ...defaultModels[feature], ...saved?.ai?.models?.[feature] }]),
+          ) as Record<AIFeature, ModelConfig>,
+        },
+        budget: { ...DEFAULT_SETTINGS.budget, ...saved?.budget },
+        fixtures: { ...DEFAULT_SETTINGS.fixtures, ...saved?.fixtures },
+        tutor: { ...DEFAULT_SETTINGS.tutor, ...saved?.tutor },
+        catalogue: { ...DEFAULT_SETTINGS.catalogue, ...saved?.catalogue },
+      };
+    } catch (error) {
+      console.error("Error loading settings:", error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+  return loaded;
+};
+
+/**
+ * Saves a change to one settings section.
+ * @param section The section to change.
+ * @param patch The fields to change in that section.
+ */
+export const updateSettings = async <K extends keyof AppSettings>(section: K, patch: Partial<AppSettings[K]>): Promise<AppSettings> => {
+  const current = await getSettings();
+  const next: AppSettings = { ...current, [section]: { ...current[section], ...patch } };
+  await dbPut('settings', { id: SETTINGS_KEY, ...next });
+  loaded = next;
+  return next;
+};
@@ -0,0 +1,189 @@
+import { type AIFeature, type AIProvider, type AIResponse, type AIUsage, type ChatRequest, type ContentRequest } from './aiProvider';
+import { BudgetExceededError } from './aiErrors';
+
+/**
+ * Usage metering: token totals per call, day, feature and model, and the daily budgets
+ * checked against them. This file has no browser or Node dependencies so the app, which
+ * meters its own calls to a model, and the proxy server share it.
+ */
+
+/** Daily token budgets, reset at local midnight. An unset budget means no limit. */
+export interface BudgetSettings {
+  /** Tokens all features together may use per day. */
+  dailyTokens?: number;
+  /** Tokens each feature may use per day. */
+  featureDailyTokens: Partial<Record<AIFeature, number>>;
+}
+
+/** One model call, as metered for the usage dashboard and the daily budgets. */
+export interface UsageCall {
+  /** The local calendar day, YYYY-MM-DD. Budgets reset at local midnight. */
+  day: string;
+  time: number;
+  feature: AIFeature;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  latencyMs: number;
+  /** False when the call failed. Failed calls count as requests but rarely use tokens. */
+  ok: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  responseTokens: number;
+  latencyMs: number;
+}
+
+/** The totals of one feature and model on one day. */
+export interface UsageRow extends UsageTotals {
+  day: string;
+  feature: AIFeature;
+  model: string;
+}
+
+/** Where usage is metered: the proxy's records cover every client, a device's only itself. */
+export interface UsageMeter {
+  /** Throws a BudgetExceededError when today's usage has used up a budget for the feature. */
+  checkBudget(feature: AIFeature): Promise<void>;
+  record(call: UsageCall): void;
+}
+
+// Usage older than this is dropped.
+export const USAGE_RETENTION_DAYS = 90;
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/**
+ * The local calendar day of a time, as YYYY-MM-DD.
+ */
+export const localDay = (time: number = Date.now()): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const totalTokens = (totals: Pick<UsageTotals, 'promptTokens' | 'responseTokens'>): number =>
+  totals.promptTokens + totals.responseTokens;
+
+/**
+ * The totals of a single call.
+ */
+export const callTotals = (call: UsageCall): UsageTotals => ({
+  requests: 1,
+  failures: call.ok ? 0 : 1,
+  promptTokens: call.promptTokens,
+  responseTokens: call.responseTokens,
+  latencyMs: call.latencyMs,
+});
+
+export const addTotals = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+  requests: a.requests + b.requests,
+  failures: a.failures + b.failures,
+  promptTokens: a.promptTokens + b.promptTokens,
+  responseTokens: a.responseTokens + b.responseTokens,
+  latencyMs: a.latencyMs + b.latencyMs,
+});
+
+/**
+ * Adds up a list of totals, e.g. the rows of one day.
+ */
+export const summarizeUsage = (totals: UsageTotals[]): UsageTotals =>
+  totals.reduce<UsageTotals>(addTotals, { requests: 0, failures: 0, promptTokens: 0, responseTokens: 0, latencyMs: 0 });
+
+/** The key a row is kept under: its day, feature and model. */
+export const usageRowKey = ({ day, feature, model }: Pick<UsageRow, 'day' | 'feature' | 'model'>): string => `${day}|${feature}|${model}`;
+
+/**
+ * Adds a call to the row for its day, feature and model, creating the row if needed.
+ * @param rows The rows by day, feature and model; updated in place.
+ */
+export const addCallToRows = (rows: Map<string, UsageRow>, call: UsageCall): void => {
+  const key = usageRowKey(call);
+  const row = rows.get(key);
+  const totals = callTotals(call);
+  rows.set(key, row ? { ...row, ...addTotals(row, totals) } : { day: call.day, feature: call.feature, model: call.model, ...totals });
+};
+
+/**
+ * Groups calls into one row per day, feature and model.
+ */
+export const groupUsage = (calls: UsageCall[]): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+  for (const call of calls) addCallToRows(rows, call);
+  return [...rows.values()];
+};
+
+/**
+ * Throws a BudgetExceededError when today's usage has reached the daily budget for all
+ * features together or for this feature.
+ * @param today Today's rows.
+ */
+export const assertWithinBudget = (today: UsageRow[], feature: AIFeature, budget: BudgetSettings): void => {
+  const used = totalTokens(summarizeUsage(today));
+  if (budget.dailyTokens !== undefined && used >= budget.dailyTokens) {
+    throw new BudgetExceededError(`Daily budget of ${budget.dailyTokens} tokens reached (${used} used).`);
+  }
+  const featureBudget = budget.featureDailyTokens[feature];
+  const usedByFeature = totalTokens(summarizeUsage(today.filter(row => row.feature === feature)));
+  if (featureBudget !== undefined && usedByFeature >= featureBudget) {
+    throw new BudgetExceededError(`Daily ${feature} budget of ${featureBudget} tokens reached (${usedByFeature} used).`);
+  }
+};
+
+/**
+ * Wraps a provider so every call is checked against the daily budgets first and then
+ * recorded with its token counts, latency, model and feature. Each retry is its own call.
+ * @param provider The provider that makes the calls.
+ * @param meter Where the budgets are checked and the calls recorded.
+ */
+export const createMeteredProvider = (provider: AIProvider, meter: UsageMeter): AIProvider => {
+  const record = (request: ChatRequest | ContentRequest, startedAt: number, usage: AIUsage | undefined, ok: boolean): void => {
+    meter.record({
+      day: localDay(startedAt),
+      time: startedAt,
+      feature: request.feature,
+      model: request.model,
+      promptTokens: usage?.promptTokens ?? 0,
+      responseTokens: usage?.responseTokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      ok,
+    });
+  };
+
+  const metered = async <R extends ChatRequest | ContentRequest>(request: R, call: (request: R) => Promise<AIResponse>): Promise<AIResponse> => {
+    await meter.checkBudget(request.feature);
+    const startedAt = Date.now();
+    try {
+      const response = await call(request);
+      record(request, startedAt, response.usage, true);
+      return response;
+    } catch (error) {
+      record(request, startedAt, undefined, false);
+      throw error;
+    }
+  };
+
+  return {
+    id: provider.id,
+    chat: request => metered(request, r => provider.chat(r)),
+    async *chatStream(request) {
+      await meter.checkBudget(request.feature);
+      const startedAt = Date.now();
+      let usage: AIUsage | undefined;
+      let failed = false;
+      try {
+        usage = yield* provider.chatStream(request);
+        return usage;
+      } catch (error) {
+        failed = true;
+        throw error;
+      } finally {
+        record(request, startedAt, usage, !failed);
+      }
+    },
+    generateJson: request => metered(request, r => provider.generateJson(r)),
+    generateContent: request => metered(request, r => provider.generateContent(r)),
+  };
+};
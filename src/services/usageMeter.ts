@@ -0,0 +1,86 @@
+import { dbClear, dbDelete, dbGetAll, dbPut } from './db';
+import { type AIProvider, providerIdForKey } from './aiProvider';
+import { type UsageCall, type UsageMeter, USAGE_RETENTION_DAYS, assertWithinBudget, createMeteredProvider, groupUsage, localDay } from './usage';
+import { type ProxyUsageReport } from './proxyRoutes';
+import { fetchProxyUsage } from './proxyProvider';
+import { getSettings } from './settingsStore';
+
+/** One model call, as stored on this device. */
+export interface UsageRecord extends UsageCall {
+  id: string;
+}
+
+/** The usage the dashboard shows: the proxy's, or this device's when it calls a model itself. */
+export interface UsageReport extends ProxyUsageReport {
+  source: 'proxy' | 'device';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists the records from a day onwards, oldest first.
+ * @param sinceDay The first day to include, as YYYY-MM-DD; all records when omitted.
+ */
+export const listUsage = async (sinceDay = ''): Promise<UsageRecord[]> => {
+  const records = await dbGetAll<UsageRecord>('usage');
+  return records.filter(record => record.day >= sinceDay).sort((a, b) => a.time - b.time);
+};
+
+export const clearUsage = (): Promise<void> => dbClear('usage');
+
+/**
+ * Drops records older than USAGE_RETENTION_DAYS.
+ */
+export const pruneUsage = async (): Promise<void> => {
+  const oldestDay = localDay(Date.now() - USAGE_RETENTION_DAYS * DAY_MS);
+  const records = await dbGetAll<UsageRecord>('usage');
+  for (const record of records) {
+    if (record.day < oldestDay) await dbDelete('usage', record.id);
+  }
+};
+
+/**
+ * Checks budgets against, and records calls in, the usage records on this device. If the
+ * records cannot be read, the call goes ahead; metering must never break the call it measures.
+ */
+const deviceMeter: UsageMeter = {
+  async checkBudget(feature) {
+    const { budget } = await getSettings();
+    if (budget.dailyTokens === undefined && budget.featureDailyTokens[feature] === undefined) return;
+
+    let today: UsageRecord[];
+    try {
+      today = await listUsage(localDay());
+    } catch (error) {
+      console.warn("Usage records could not be read; skipping the budget check:", error);
+      return;
+    }
+    assertWithinBudget(groupUsage(today), feature, budget);
+  },
+  record(call) {
+    const entry: UsageRecord = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, ...call };
+    dbPut('usage', entry).catch(error => console.warn("Usage could not be recorded:", error));
+  },
+};
+
+/**
+ * Wraps a provider so its calls are metered and budgeted on this device. The proxy
+ * provider is returned as it is: the proxy meters its calls for all its clients.
+ * @param provider The provider that makes the calls.
+ */
+export const meterProvider = (provider: AIProvider): AIProvider =>
+  provider.id === 'proxy' ? provider : createMeteredProvider(provider, deviceMeter);
+
+/**
+ * Loads the usage to show: the proxy's totals and budgets when calls go through it,
+ * otherwise the last USAGE_RETENTION_DAYS of records and the budgets on this device.
+ */
+export const loadUsageReport = async (): Promise<UsageReport> => {
+  const { ai, budget } = await getSettings();
+  if (providerIdForKey(ai.apiKey) === 'proxy') {
+    return { source: 'proxy', ...await fetchProxyUsage(process.env.AI_PROXY_URL ?? '') };
+  }
+  await pruneUsage();
+  const records = await listUsage(localDay(Date.now() - (USAGE_RETENTION_DAYS - 1) * DAY_MS));
+  return { source: 'device', today: localDay(), rows: groupUsage(records), budget };
+};
@@ -0,0 +1,137 @@
+import { type PracticeProblem } from '../types';
+
+/** A single problem found in model output, with a JSON path such as `[1].options.c`. */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/** Checks an unknown value and returns every issue found; an empty list means valid. */
+export type Validator = (value: unknown, path: string) => ValidationIssue[];
+
+const describePath = (path: string) => path || '(root)';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const nonEmptyString = (): Validator => (value, path) => {
+  if (typeof value !== 'string') return [{ path, message: `expected a string, got ${JSON.stringify(value)}` }];
+  if (!value.trim()) return [{ path, message: 'must not be empty' }];
+  return [];
+};
+
+export const anyString = (): Validator => (value, path) =>
+  typeof value === 'string' ? [] : [{ path, message: `expected a string, got ${JSON.stringify(value)}` }];
+
+export const numberInRange = (min: number, max: number): Validator => (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) return [{ path, message: `expected a number, got ${JSON.stringify(value)}` }];
+  if (value < min || value > max) return [{ path, message: `must be between ${min} and ${max}, got ${value}` }];
+  return [];
+};
+
+export const oneOf = (allowed: readonly string[]): Validator => (value, path) =>
+  typeof value === 'string' && allowed.includes(value)
+    ? []
+    : [{ path, message: `must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}` }];
+
+const optionalValidators = new WeakSet<Validator>();
+
+/**
+ * Marks an object field as optional: it may be missing or undefined, and is checked otherwise.
+ */
+export const optional = (validate: Validator): Validator => {
+  const validateIfSet: Validator = (value, path) => (value === undefined ? [] : validate(value, path));
+  optionalValidators.add(validateIfSet);
+  return validateIfSet;
+};
+
+export const object = (fields: Record<string, Validator>, ...checks: Validator[]): Validator => (value, path) => {
+  if (!isRecord(value)) return [{ path, message: `expected an object, got ${JSON.stringify(value)}` }];
+  const issues = Object.entries(fields).flatMap(([key, validate]) => {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (key in value) return validate(value[key], fieldPath);
+    return optionalValidators.has(validate) ? [] : [{ path: fieldPath, message: 'is missing' }];
+  });
+  // Cross-field checks only make sense once every field has the right shape.
+  return issues.length > 0 ? issues : checks.flatMap(check => check(value, path));
+};
+
+export const arrayOf = (item: Validator, expectedLength?: number): Validator => (value, path) => {
+  if (!Array.isArray(value)) return [{ path, message: `expected an array, got ${JSON.stringify(value)}` }];
+  const issues = value.flatMap((element, index) => item(element, `${path}[${index}]`));
+  if (expectedLength !== undefined && value.length !== expectedLength) {
+    issues.push({ path, message: `expected ${expectedLength} items, got ${value.length}` });
+  }
+  return issues;
+};
+
+const distinctValues: Validator = (value, path) => {
+  const entries = Object.entries(value as Record<string, string>);
+  const seen = new Map<string, string>();
+  const issues: ValidationIssue[] = [];
+  for (const [key, text] of entries) {
+    const normalized = text.trim().toLowerCase();
+    const duplicateOf = seen.get(normalized);
+    if (duplicateOf) {
+      issues.push({ path: `${path}.${key}`, message: `duplicates option ${duplicateOf}` });
+    } else {
+      seen.set(normalized, key);
+    }
+  }
+  return issues;
+};
+
+export const ANSWER_KEYS = ['a', 'b', 'c', 'd'] as const;
+
+export const practiceProblemValidator: Validator = object({
+  problem: nonEmptyString(),
+  options: object({
+    a: nonEmptyString(),
+    b: nonEmptyString(),
+    c: nonEmptyString(),
+    d: nonEmptyString(),
+  }, distinctValues),
+  correctAnswer: oneOf(ANSWER_KEYS),
+  solution: nonEmptyString(),
+  youtubeLink: anyString(),
+});
+
+export const practiceProblemsValidator = (count: number): Validator => arrayOf(practiceProblemValidator, count);
+
+export const problemSolutionValidator: Validator = object({
+  answer: oneOf(ANSWER_KEYS),
+  reasoning: anyString(),
+});
+
+export const topicSummaryValidator: Validator = object({
+  keyConcepts: nonEmptyString(),
+  formulas: nonEmptyString(),
+  solvingTechniques: nonEmptyString(),
+});
+
+export const misconceptionTagValidator = (ids: readonly string[]): Validator => object({
+  misconceptionId: oneOf(ids),
+  confidence: numberInRange(0, 1),
+  curriculumUnit: anyString(),
+});
+
+export const sessionRecapValidator: Validator = object({
+  concepts: arrayOf(nonEmptyString()),
+  misconceptions: arrayOf(object({
+    misconception: nonEmptyString(),
+    correction: nonEmptyString(),
+  })),
+  formulas: arrayOf(nonEmptyString()),
+  nextTopics: arrayOf(nonEmptyString()),
+});
+
+/**
+ * Formats issues as one line each, for logs and for the repair prompt.
+ */
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `- ${describePath(issue.path)}: ${issue.message}`).join('\n');
+
+/**
+ * Type guard for a single practice problem, used to keep the valid items of a partly broken batch.
+ */
+export const isPracticeProblem = (value: unknown): value is PracticeProblem => practiceProblemValidator(value, '').length === 0;
@@ -0,0 +1,113 @@
+import { type CatalogueVideo } from '../types';
+import { CURRICULUM, type CurriculumTopic } from '../data/curriculum';
+import { SEED_VERSION, SEED_VIDEOS } from '../data/videoSeed';
+import { dbDelete, dbGetAll, dbPut, dbPutAll } from './db';
+import { getSettings, updateSettings } from './settingsStore';
+import { type ValidationIssue, anyString, arrayOf, nonEmptyString, object, type Validator } from './validation';
+
+/** The shape accepted by the JSON import; ids are optional and generated when missing. */
+export type CatalogueVideoInput = Omit<CatalogueVideo, 'id'> & { id?: string };
+
+const httpUrl: Validator = (value, path) => {
+  const issues = nonEmptyString()(value, path);
+  if (issues.length > 0) return issues;
+  return /^https?:\/\//.test(value as string) ? [] : [{ path, message: 'must be an http(s) URL' }];
+};
+
+const optionalSeconds: Validator = (value, path) =>
+  value === undefined || (typeof value === 'number' && Number.isInteger(value) && value >= 0)
+    ? []
+    : [{ path, message: 'must be a whole number of seconds' }];
+
+const optionalString: Validator = (value, path) => (value === undefined ? [] : anyString()(value, path));
+
+const stringList: Validator = (value, path) => {
+  const issues = arrayOf(nonEmptyString())(value, path);
+  if (issues.length === 0 && (value as unknown[]).length === 0) return [{ path, message: 'must list at least one curriculum id' }];
+  return issues;
+};
+
+const catalogueVideoValidator: Validator = (value, path) => {
+  const fields = object({ title: nonEmptyString(), url: httpUrl, curriculumIds: stringList })(value, path);
+  if (fields.length > 0) return fields;
+  const record = value as Record<string, unknown>;
+  return [
+    ...optionalString(record.id, `${path}.id`),
+    ...optionalSeconds(record.startSeconds, `${path}.startSeconds`),
+    ...optionalString(record.channel, `${path}.channel`),
+  ];
+};
+
+/**
+ * Adds the seed videos once per SEED_VERSION, so an empty catalogue still has vetted links
+ * and a seed the teacher deleted stays deleted.
+ */
+const seedCatalogue = async (): Promise<void> => {
+  const { catalogue } = await getSettings();
+  if (catalogue.seedVersion >= SEED_VERSION) return;
+  await dbPutAll('videos', SEED_VIDEOS);
+  await updateSettings('catalogue', { seedVersion: SEED_VERSION });
+};
+
+export const listVideos = async (): Promise<CatalogueVideo[]> => {
+  await seedCatalogue();
+  const videos = await dbGetAll<CatalogueVideo>('videos');
+  return videos.sort((a, b) => a.title.localeCompare(b.title, 'zh-Hant'));
+};
+
+export const saveVideo = (video: CatalogueVideoInput): Promise<void> =>
+  dbPut<CatalogueVideo>('videos', { ...video, id: video.id ?? crypto.randomUUID() });
+
+export const deleteVideo = (id: string): Promise<void> => dbDelete('videos', id);
+
+/**
+ * Imports catalogue entries from JSON text. Entries with an existing id replace the stored one.
+ * Nothing is imported when any entry is invalid, so a bad file never leaves a half-imported catalogue.
+ * @param json A JSON array of videos.
+ * @returns The number of imported entries, or the validation issues.
+ */
+export const importVideos = async (json: string): Promise<{ imported: number; issues: ValidationIssue[] }> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return { imported: 0, issues: [{ path: '', message: `is not valid JSON (${(e as Error).message})` }] };
+  }
+  const issues = arrayOf(catalogueVideoValidator)(parsed, '');
+  if (issues.length > 0) return { imported: 0, issues };
+  const videos = (parsed as CatalogueVideoInput[]).map(video => ({ ...video, id: video.id ?? crypto.randomUUID() }));
+  await dbPutAll<CatalogueVideo>('videos', videos);
+  return { imported: videos.length, issues: [] };
+};
+
+export const exportVideos = async (): Promise<string> => JSON.stringify(await listVideos(), null, 2);
+
+/**
+ * Finds catalogue videos for a topic. Videos tagged with the exact subtopic come first,
+ * followed by videos tagged with the whole unit. A whole-unit topic also matches
+ * videos tagged with any of its subtopics.
+ */
+export const findVideosForTopic = (videos: CatalogueVideo[], topic: CurriculumTopic): CatalogueVideo[] => {
+  const unit = CURRICULUM.find(c => c.id === topic.courseId)?.units.find(u => u.id === topic.unitId);
+  const specificIds = topic.subtopicId ? [topic.subtopicId] : unit?.subtopics.map(s => s.id) ?? [];
+  const specific = videos.filter(v => v.curriculumIds.some(id => specificIds.includes(id)));
+  const general = unit ? videos.filter(v => v.curriculumIds.includes(unit.id) && !specific.includes(v)) : [];
+  return [...specific, ...general];
+};
+
+/**
+ * Builds a link that starts playback at the video's timestamp.
+ */
+export const videoUrlWithTimestamp = (video: CatalogueVideo): string => {
+  if (!video.startSeconds) return video.url;
+  try {
+    const url = new URL(video.url);
+    url.searchParams.set('t', `${video.startSeconds}s`);
+    return url.toString();
+  } catch {
+    return video.url;
+  }
+};
+
+export const formatTimestamp = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
@@ -1,8 +1,144 @@
-export type View = 'tutor' | 'practice' | 'lab' | 'diagram';
+export type View = 'tutor' | 'practice' | 'review' | 'lab' | 'diagram' | 'videos' | 'usage' | 'settings';
+
+export interface MisconceptionTag {
+  /** An id from the misconception taxonomy, or 'none'. */
+  misconceptionId: string;
+  /** The model's confidence in the tag, from 0 to 1. */
+  confidence: number;
+  curriculumUnit: string;
+  /** The prompt template revision that produced the tag, e.g. "misconception-tag@1". */
+  promptVersion?: string;
+}
+
+/** How the tutor teaches: guiding questions, direct explanation, quizzing, or exam preparation. */
+export type TutorMode = 'socratic' | 'explain' | 'quiz' | 'exam-coach';
+
+/** The rungs of the 我卡住了 hint ladder: nudge, targeted hint, worked sub-step, full explanation. */
+export type HintLevel = 1 | 2 | 3 | 4;
+
+/** An image attached to a chat message, base64-encoded as it is sent to the model. */
+export interface ChatImage {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * The other ways a conversation went on after a message, left behind when the student
+ * edited the next turn or regenerated the next reply.
+ */
+export interface MessageBranches {
+  /** The versions not shown, each the full run of messages after this one, oldest first. */
+  others: ChatMessage[][];
+  /** Where the shown version sits among all versions, 0-based. */
+  index: number;
+}
 
 export interface ChatMessage {
   role: 'user' | 'model';
+  /** May be empty when a student turn consists of images only. */
   text: string;
+  /** Photos of a problem or of the student's working, shown before the text. */
+  images?: ChatImage[];
+  /** Set on a student turn that asked for a hint instead of saying something. */
+  hintLevel?: HintLevel;
+  /** The misconception the student showed in the turn this reply answers. Only set on model messages. */
+  misconception?: MisconceptionTag;
+  /** The system prompt revision a model reply was generated with. */
+  promptVersion?: string;
+  /** Set once what follows this message has more than one version. */
+  branches?: MessageBranches;
+  /** Set on the opening message the tutor adds when the student switches to this mode. */
+  mode?: TutorMode;
+  /** The teaching mode a model message was written in; later turns of the same branch continue in it. */
+  tutorMode?: TutorMode;
+}
+
+/**
+ * A rolling note that stands in for the older turns of a long conversation. The model sees
+ * the note plus the turns after it, instead of the whole history.
+ */
+export interface ConversationMemory {
+  /** What the student has established so far, in Traditional Chinese. */
+  summary: string;
+  /** How many messages from the start of the session the note covers. */
+  coveredCount: number;
+  updatedAt: number;
+  promptVersion?: string;
+}
+
+export interface HintUsage {
+  /** The rung the ladder is on for the current problem; 0 before the first hint or after 換一題. */
+  currentLevel: HintLevel | 0;
+  /** Every hint given in the session, in order. */
+  history: { level: HintLevel; at: number }[];
+}
+
+/**
+ * A practice problem the student answered wrongly, handed from the problem generator to the
+ * tutor. It is given to the model on every turn but never shown as a chat message.
+ */
+export interface PracticeDiscussion {
+  /** The curriculum topic label the problem was generated for. */
+  topic: string;
+  problem: string;
+  options: PracticeProblem['options'];
+  correctAnswer: AnswerKey;
+  chosenAnswer: AnswerKey;
+  solution: string;
+}
+
+/** The 結束並總結 recap of a tutoring session, kept with the session. */
+export interface SessionRecap {
+  concepts: string[];
+  /** Misconceptions that came up, each with how it was corrected. */
+  misconceptions: { misconception: string; correction: string }[];
+  formulas: string[];
+  /** Topics to practise next, named after curriculum subtopics where one fits. */
+  nextTopics: string[];
+  /** How many messages the recap covers; the session may have gone on since. */
+  messageCount: number;
+  /** The conversationSignature of the messages the recap covers; unset on recaps saved before it existed. */
+  signature?: string;
+  createdAt: number;
+  promptVersion?: string;
+}
+
+export interface TutorSession {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  memory?: ConversationMemory;
+  hints?: HintUsage;
+  /** Set when the session was opened from a wrong practice answer. */
+  practice?: PracticeDiscussion;
+  /** The teaching mode in use; sessions saved before modes existed are Socratic. */
+  mode?: TutorMode;
+  recap?: SessionRecap;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AnswerKey = 'a' | 'b' | 'c' | 'd';
+
+/** The result of an independent re-solve of a problem by a second model call that never saw the key. */
+export interface ProblemVerification {
+  status: 'verified' | 'unverified';
+  /** Unset when the independent solve itself failed, so the key could not be checked. */
+  verifierAnswer?: AnswerKey;
+  verifierReasoning?: string;
+  promptVersion?: string;
+}
+
+/** A teacher-curated video in the local catalogue. */
+export interface CatalogueVideo {
+  id: string;
+  title: string;
+  url: string;
+  /** Where the relevant explanation starts, in seconds. */
+  startSeconds?: number;
+  channel?: string;
+  /** Curriculum unit or subtopic ids the video explains. */
+  curriculumIds: string[];
 }
 
 export interface PracticeProblem {
@@ -13,13 +149,25 @@ export interface PracticeProblem {
     c: string;
     d: string;
   };
-  correctAnswer: 'a' | 'b' | 'c' | 'd';
+  correctAnswer: AnswerKey;
   solution: string;
+  /** The model's own suggestion. Unverified, so only shown when the catalogue has nothing for the topic. */
   youtubeLink: string;
+  /** Videos from the local catalogue for the problem's topic. */
+  catalogueVideos?: CatalogueVideo[];
+  verification?: ProblemVerification;
+  promptVersion?: string;
 }
 
 export interface TopicSummary {
   keyConcepts: string;
   formulas: string;
   solvingTechniques: string;
+  promptVersion?: string;
+}
+
+/** Free-form model output together with the prompt revision that produced it. */
+export interface GeneratedText {
+  text: string;
+  promptVersion: string;
 }
\ No newline at end of file
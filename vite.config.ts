@@ -1,12 +1,24 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const aiProvider = process.env.AI_PROVIDER ?? 'proxy'
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   define: {
     // Expose environment variables to the client-side code.
-    // Vercel injects its environment variables into the build process.
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    // The API key is only inlined for direct Gemini calls during local development;
+    // the default proxy provider keeps it on the server (see server/).
+    'process.env.API_KEY': JSON.stringify(aiProvider === 'gemini' ? process.env.API_KEY ?? '' : ''),
+    // Set AI_PROVIDER=mock to run the app offline against canned responses.
+    'process.env.AI_PROVIDER': JSON.stringify(aiProvider),
+    // The proxy origin; empty means the same origin as the app.
+    'process.env.AI_PROXY_URL': JSON.stringify(process.env.AI_PROXY_URL ?? ''),
+  },
+  server: {
+    proxy: {
+      '/api': `http://localhost:${process.env.PROXY_PORT ?? 8787}`,
+    },
   },
 })